@@ -0,0 +1,31 @@
+import { IAIMessagePromptType } from 'src/interfaces/ai.interfaces';
+
+export interface IAiCompletionOptionsType {
+  messages: IAIMessagePromptType[];
+  // Defaults to AI_MODEL
+  model?: string;
+  // Per request, in milliseconds, defaults to AI_TIMEOUT
+  timeout?: number;
+  // Defaults to AI_MAX_RETRIES
+  maxRetries?: number;
+  // Aborts the request, and the stream once it started
+  signal?: AbortSignal;
+}
+
+/**
+ * Chat completion backend used by the AI features
+ * The concrete driver is selected by AI_PROVIDER, see AiModule
+ */
+export abstract class AiProvider {
+  abstract readonly defaultModel: string;
+
+  abstract createCompletion(options: IAiCompletionOptionsType): Promise<string>;
+
+  /**
+   * Resolves once the upstream accepted the request, so errors before the first token can still be thrown
+   * @returns The content of the completion, chunk by chunk
+   */
+  abstract streamCompletion(
+    options: IAiCompletionOptionsType,
+  ): Promise<AsyncIterable<string>>;
+}
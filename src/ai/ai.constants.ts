@@ -0,0 +1,9 @@
+export enum AiProviderDriver {
+  OPENROUTER = 'openrouter',
+  FAKE = 'fake',
+}
+
+export const AI_CONSTANTS = {
+  // Delay between the chunks streamed by the fake provider
+  FAKE_STREAM_DELAY: 10, // 10ms
+};
@@ -0,0 +1,22 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AiProviderDriver } from 'src/ai/ai.constants';
+import { AiProvider } from 'src/ai/ai-provider.service';
+import { FakeAiProvider } from 'src/ai/fake-ai-provider.service';
+import { OpenRouterAiProvider } from 'src/ai/openrouter-ai-provider.service';
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: AiProvider,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        configService.get('AI_PROVIDER') === AiProviderDriver.FAKE
+          ? new FakeAiProvider(configService)
+          : new OpenRouterAiProvider(configService),
+    },
+  ],
+  exports: [AiProvider],
+})
+export class AiModule {}
@@ -0,0 +1,106 @@
+import { ConfigService } from '@nestjs/config';
+import { FakeAiProvider } from 'src/ai/fake-ai-provider.service';
+import { IAIMessagePromptType } from 'src/interfaces/ai.interfaces';
+
+const messages: IAIMessagePromptType[] = [
+  { role: 'system', content: 'You write blog posts' },
+  { role: 'user', content: 'First prompt' },
+  { role: 'assistant', content: 'Sure' },
+  { role: 'user', content: 'Write about  WebAssembly\ntoday' },
+];
+
+const collect = async (stream: AsyncIterable<string>) => {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+};
+
+describe('FakeAiProvider', () => {
+  let provider: FakeAiProvider;
+
+  beforeEach(() => {
+    provider = new FakeAiProvider(
+      new ConfigService({ AI_MODEL: 'fake/default-model' }),
+    );
+  });
+
+  it('uses the model of the config by default', () => {
+    expect(provider.defaultModel).toBe('fake/default-model');
+  });
+
+  it('answers with the model and the last user message', async () => {
+    await expect(provider.createCompletion({ messages })).resolves.toBe(
+      '[fake/default-model] Write about  WebAssembly\ntoday',
+    );
+    await expect(
+      provider.createCompletion({ messages, model: 'fake/other-model' }),
+    ).resolves.toBe('[fake/other-model] Write about  WebAssembly\ntoday');
+  });
+
+  it('joins the text parts of a multipart message', async () => {
+    await expect(
+      provider.createCompletion({
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'Part one' },
+              { type: 'text', text: 'Part two' },
+            ],
+          },
+        ],
+      }),
+    ).resolves.toBe('[fake/default-model] Part one\nPart two');
+  });
+
+  it('streams word chunks that join back into the completion', async () => {
+    const chunks = await collect(await provider.streamCompletion({ messages }));
+
+    expect(chunks).toEqual([
+      '[fake/default-model] ',
+      'Write ',
+      'about  ',
+      'WebAssembly\n',
+      'today',
+    ]);
+    expect(chunks.join('')).toBe(await provider.createCompletion({ messages }));
+  });
+
+  it('streams the same chunks on every call', async () => {
+    const first = await collect(await provider.streamCompletion({ messages }));
+    const second = await collect(await provider.streamCompletion({ messages }));
+
+    expect(second).toEqual(first);
+  });
+
+  it('rejects requests that are already aborted', async () => {
+    const abortController = new AbortController();
+    abortController.abort();
+
+    await expect(
+      provider.createCompletion({ messages, signal: abortController.signal }),
+    ).rejects.toThrow();
+    await expect(
+      provider.streamCompletion({ messages, signal: abortController.signal }),
+    ).rejects.toThrow();
+  });
+
+  it('stops the stream once aborted', async () => {
+    const abortController = new AbortController();
+    const stream = await provider.streamCompletion({
+      messages,
+      signal: abortController.signal,
+    });
+
+    const chunks: string[] = [];
+    await expect(
+      (async () => {
+        for await (const chunk of stream) {
+          chunks.push(chunk);
+          abortController.abort();
+        }
+      })(),
+    ).rejects.toThrow();
+    expect(chunks).toHaveLength(1);
+  });
+});
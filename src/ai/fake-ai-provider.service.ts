@@ -0,0 +1,59 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { setTimeout } from 'timers/promises';
+import { AI_CONSTANTS } from 'src/ai/ai.constants';
+import {
+  AiProvider,
+  IAiCompletionOptionsType,
+} from 'src/ai/ai-provider.service';
+
+/**
+ * Deterministic offline provider, for development and tests
+ * Answers with the model and the last user message, so the same request always gets the same content
+ */
+@Injectable()
+export class FakeAiProvider extends AiProvider {
+  readonly defaultModel: string;
+
+  constructor(private readonly configService: ConfigService) {
+    super();
+    this.defaultModel = this.configService.get('AI_MODEL');
+  }
+
+  async createCompletion(options: IAiCompletionOptionsType): Promise<string> {
+    options.signal?.throwIfAborted();
+
+    return this.getContent(options);
+  }
+
+  async streamCompletion(
+    options: IAiCompletionOptionsType,
+  ): Promise<AsyncIterable<string>> {
+    const { signal } = options;
+    signal?.throwIfAborted();
+
+    // Words keep their trailing whitespace, so the chunks join back into the content
+    const chunks = this.getContent(options).match(/\S+\s*/g) || [];
+
+    return (async function* () {
+      for (const chunk of chunks) {
+        await setTimeout(AI_CONSTANTS.FAKE_STREAM_DELAY, undefined, {
+          signal,
+        });
+        yield chunk;
+      }
+    })();
+  }
+
+  private getContent({ messages, model }: IAiCompletionOptionsType) {
+    const lastUserMessage = [...messages]
+      .reverse()
+      .find((message) => message.role === 'user');
+    const prompt =
+      typeof lastUserMessage?.content === 'string'
+        ? lastUserMessage.content
+        : lastUserMessage?.content.map(({ text }) => text).join('\n') || '';
+
+    return `[${model || this.defaultModel}] ${prompt}`;
+  }
+}
@@ -0,0 +1,68 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import OpenAI from 'openai';
+import {
+  AiProvider,
+  IAiCompletionOptionsType,
+} from 'src/ai/ai-provider.service';
+
+/**
+ * Chat completions through the OpenAI compatible API of OpenRouter
+ */
+@Injectable()
+export class OpenRouterAiProvider extends AiProvider {
+  readonly defaultModel: string;
+  private client: OpenAI;
+
+  constructor(private readonly configService: ConfigService) {
+    super();
+    this.defaultModel = this.configService.get('AI_MODEL');
+    this.client = new OpenAI({
+      baseURL: this.configService.get('OPENROUTER_PROVIDER_URL'),
+      apiKey: this.configService.get('OPENROUTER_API_KEY'),
+      timeout: this.configService.get('AI_TIMEOUT'),
+      maxRetries: this.configService.get('AI_MAX_RETRIES'),
+    });
+  }
+
+  async createCompletion(options: IAiCompletionOptionsType): Promise<string> {
+    const completion = await this.client.chat.completions.create(
+      {
+        model: options.model || this.defaultModel,
+        messages: options.messages,
+      },
+      this.getRequestOptions(options),
+    );
+
+    return completion.choices[0]?.message?.content || '';
+  }
+
+  async streamCompletion(
+    options: IAiCompletionOptionsType,
+  ): Promise<AsyncIterable<string>> {
+    const stream = await this.client.chat.completions.create(
+      {
+        model: options.model || this.defaultModel,
+        messages: options.messages,
+        stream: true,
+      },
+      this.getRequestOptions(options),
+    );
+
+    return (async function* () {
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    })();
+  }
+
+  // Unset options fall back to the defaults of the client
+  private getRequestOptions({
+    timeout,
+    maxRetries,
+    signal,
+  }: IAiCompletionOptionsType): OpenAI.RequestOptions {
+    return { timeout, maxRetries, signal };
+  }
+}
@@ -18,6 +18,17 @@ import { CacheModule, CacheStore } from '@nestjs/cache-manager';
 // import * as redisStore from 'cache-manager-redis-store';
 import { redisStore } from 'cache-manager-redis-yet';
 import { PostCommentModule } from 'src/resources/post-comment/post-comment.module';
+import { EventsModule } from 'src/events/events.module';
+import { NotificationModule } from 'src/resources/notification/notification.module';
+import { ConversationModule } from 'src/resources/conversation/conversation.module';
+import { ServerModule } from 'src/resources/server/server.module';
+import { PermissionModule } from 'src/resources/permission/permission.module';
+import { StorageModule } from 'src/storage/storage.module';
+import { AiModule } from 'src/ai/ai.module';
+import { HashtagModule } from 'src/resources/hashtag/hashtag.module';
+import { ReportModule } from 'src/resources/report/report.module';
+import { AuditLogModule } from 'src/resources/audit-log/audit-log.module';
+import { PricingModule } from 'src/resources/pricing/pricing.module';
 @Module({
   imports: [
     ConfigModule.forRoot({
@@ -93,10 +104,21 @@ import { PostCommentModule } from 'src/resources/post-comment/post-comment.modul
     ThrottlerModule.forRoot([{ ttl: 2000, limit: 100, name: 'default' }]),
     JwtModuleCustom,
     PrismaModule,
+    StorageModule,
+    AiModule,
+    EventsModule,
+    PermissionModule,
+    AuditLogModule,
+    PricingModule,
     AuthModule,
     UserModule,
     PostCommentModule,
     PostModule,
+    NotificationModule,
+    ConversationModule,
+    ServerModule,
+    HashtagModule,
+    ReportModule,
   ],
   controllers: [AppController],
   providers: [
@@ -19,6 +19,13 @@ const configuration = () => ({
   // Database
   DATABASE_URL: process.env.DATABASE_URL,
 
+  // Storage
+  STORAGE_DRIVER: process.env.STORAGE_DRIVER || 'supabase',
+  STORAGE_LOCAL_PATH: process.env.STORAGE_LOCAL_PATH || './uploads',
+  STORAGE_LOCAL_PUBLIC_URL:
+    process.env.STORAGE_LOCAL_PUBLIC_URL ||
+    `http://localhost:${process.env.SERVER_PORT || '8080'}/uploads`,
+
   // Supabase
   SUPABASE_URL: process.env.SUPABASE_URL,
   SUPABASE_KEY: process.env.SUPABASE_KEY,
@@ -30,8 +37,13 @@ const configuration = () => ({
   MAILER_PORT: parseInt(process.env.MAILER_PORT || '465', 10),
   MAILER_USER: process.env.MAILER_USER,
   MAILER_PASS: process.env.MAILER_PASS,
+  PASSWORD_RESET_URL: process.env.PASSWORD_RESET_URL || undefined,
 
   // AI Services
+  AI_PROVIDER: process.env.AI_PROVIDER || 'openrouter',
+  AI_MODEL: process.env.AI_MODEL || 'openai/gpt-4o-mini',
+  AI_TIMEOUT: parseInt(process.env.AI_TIMEOUT || '60000', 10),
+  AI_MAX_RETRIES: parseInt(process.env.AI_MAX_RETRIES || '2', 10),
   OPENROUTER_API_KEY: process.env.OPENROUTER_API_KEY,
   OPENROUTER_PROVIDER_URL: process.env.OPENROUTER_PROVIDER_URL,
 });
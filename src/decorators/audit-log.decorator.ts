@@ -0,0 +1,16 @@
+import { applyDecorators, UseInterceptors } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuditAction, AuditTargetType } from '@prisma/client';
+import { AuditLogInterceptor } from 'src/interceptors/audit-log.interceptor';
+
+export interface IAuditOptions {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  // Route param holding the target id
+  targetParam: string;
+}
+
+export const AuditOptions = Reflector.createDecorator<IAuditOptions>();
+
+export const Audit = (options: IAuditOptions) =>
+  applyDecorators(AuditOptions(options), UseInterceptors(AuditLogInterceptor));
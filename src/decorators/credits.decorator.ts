@@ -0,0 +1,51 @@
+import {
+  applyDecorators,
+  createParamDecorator,
+  ExecutionContext,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiHeader } from '@nestjs/swagger';
+import { CreditTransactionReason } from '@prisma/client';
+import { PricingFeature } from 'src/global/enums.global';
+import { CheckCreditsGuard } from 'src/guards/check-credits.guard';
+import { JwtTokenVerifyGuard } from 'src/guards/jwt-token-verify.guard';
+import { CreditReservationInterceptor } from 'src/interceptors/credit-reservation.interceptor';
+import {
+  ICreditReservationType,
+  IRequestWithCreditReservation,
+} from 'src/interfaces/interfaces.global';
+
+export interface ICreditChargeOptions {
+  // Priced from the pricing table, with the discount of the user type
+  feature: PricingFeature;
+  model?: string;
+  reason: CreditTransactionReason;
+}
+
+export const CreditCharge = Reflector.createDecorator<ICreditChargeOptions>();
+
+/**
+ * Reserve the credits before the handler runs, commit them when it succeeds and refund them when it throws
+ */
+export const ChargeCredits = (options: ICreditChargeOptions) =>
+  applyDecorators(
+    CreditCharge(options),
+    UseGuards(JwtTokenVerifyGuard, CheckCreditsGuard),
+    UseInterceptors(CreditReservationInterceptor),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+      description: 'JWT access token for authentication',
+    }),
+  );
+
+export const CreditReservation = createParamDecorator(
+  (data: string, ctx: ExecutionContext): ICreditReservationType => {
+    const request = ctx
+      .switchToHttp()
+      .getRequest() as IRequestWithCreditReservation;
+    return request.creditReservation;
+  },
+);
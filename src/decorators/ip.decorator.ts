@@ -1,34 +1,40 @@
 // ip.decorator.ts
 import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
 
 export const IpAddress = createParamDecorator(
-  (data: unknown, ctx: ExecutionContext) => {
-    const request = ctx.switchToHttp().getRequest();
+  (data: unknown, ctx: ExecutionContext) =>
+    getRequestIpAddress(ctx.switchToHttp().getRequest<Request>()),
+);
 
-    let ip =
-      request.headers['x-forwarded-for']?.split(',')[0] ||
-      request.headers['x-real-ip'] ||
-      request.headers['origin'] ||
-      request.connection.remoteAddress ||
-      request.socket.remoteAddress ||
-      request.ip;
+// Also used outside of route params, e.g. by the audit log interceptor
+export function getRequestIpAddress(request: Request): string | undefined {
+  // Repeated headers are joined, the first value is the client
+  const getHeader = (name: string) =>
+    [request.headers[name]].flat().join(',').split(',')[0].trim();
 
-    // Xử lý bỏ http://, https:// và port
-    ip = ip
-      ?.replace(/^https?:\/\//, '') // Bỏ http:// hoặc https://
-      .replace(/:\d+$/, '') // Bỏ port number
-      .replace(/\/+$/, ''); // Bỏ dấu / ở cuối nếu có
+  let ip =
+    getHeader('x-forwarded-for') ||
+    getHeader('x-real-ip') ||
+    getHeader('origin') ||
+    request.socket?.remoteAddress ||
+    request.ip;
 
-    // Xử lý địa chỉ IPv6 localhost
-    if (ip === '::1' || ip === '::ffff:127.0.0.1') {
-      return '127.0.0.1';
-    }
+  // Xử lý bỏ http://, https:// và port
+  ip = ip
+    ?.replace(/^https?:\/\//, '') // Bỏ http:// hoặc https://
+    .replace(/:\d+$/, '') // Bỏ port number
+    .replace(/\/+$/, ''); // Bỏ dấu / ở cuối nếu có
 
-    // Xử lý địa chỉ IPv6 thành IPv4
-    if (ip?.startsWith('::ffff:')) {
-      return ip.substring(7);
-    }
+  // Xử lý địa chỉ IPv6 localhost
+  if (ip === '::1' || ip === '::ffff:127.0.0.1') {
+    return '127.0.0.1';
+  }
 
-    return ip;
-  },
-);
+  // Xử lý địa chỉ IPv6 thành IPv4
+  if (ip?.startsWith('::ffff:')) {
+    return ip.substring(7);
+  }
+
+  return ip;
+}
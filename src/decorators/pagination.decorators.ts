@@ -25,3 +25,19 @@ export function ApiQueryLimitAndPage(options?: {
     }),
   );
 }
+
+export function ApiQueryCursor() {
+  return applyDecorators(
+    ApiQuery({
+      name: 'cursor',
+      description:
+        'Opaque cursor from the previous response (nextCursor). Send it empty to get the first page in cursor mode, page is then ignored',
+      required: false,
+    }),
+    ApiQuery({
+      name: 'withTotal',
+      description: 'Return totalCount in cursor mode (true/false)',
+      required: false,
+    }),
+  );
+}
@@ -0,0 +1,19 @@
+import { applyDecorators, UseGuards } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiHeader } from '@nestjs/swagger';
+import { PermissionKey } from 'src/global/enums.global';
+import { JwtTokenVerifyGuard } from 'src/guards/jwt-token-verify.guard';
+import { PermissionGuard } from 'src/guards/permission.guard';
+
+export const Permissions = Reflector.createDecorator<PermissionKey[]>();
+
+export const RequirePermissions = (...permissions: PermissionKey[]) =>
+  applyDecorators(
+    Permissions(permissions),
+    UseGuards(JwtTokenVerifyGuard, PermissionGuard),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+      description: 'JWT access token for authentication',
+    }),
+  );
@@ -0,0 +1,18 @@
+export const EVENTS_CONSTANTS = {
+  USER_ROOM_PREFIX: 'user:',
+  POST_ROOM_PREFIX: 'post:',
+};
+
+export enum SocketEvent {
+  // Client -> Server
+  SUBSCRIBE_POST = 'post:subscribe',
+  UNSUBSCRIBE_POST = 'post:unsubscribe',
+
+  // Server -> Client
+  POST_LIKED = 'post:liked',
+  POST_COMMENTED = 'post:commented',
+  USER_FOLLOWED = 'user:followed',
+  NOTIFICATION_CREATED = 'notification:created',
+  MESSAGE_CREATED = 'message:created',
+  EXCEPTION = 'exception',
+}
@@ -0,0 +1,133 @@
+import { Logger } from '@nestjs/common';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+} from '@nestjs/websockets';
+import { Server, Socket } from 'socket.io';
+import { EVENTS_CONSTANTS, SocketEvent } from 'src/events/events.constants';
+import { JwtTokenVerifyGuard } from 'src/guards/jwt-token-verify.guard';
+import { IDecodedAccecssTokenType } from 'src/interfaces/interfaces.global';
+import { PrismaService } from 'src/prisma/prisma.service';
+
+interface ISocketWithDecodedAccessToken extends Socket {
+  data: {
+    decodedAccessToken?: IDecodedAccecssTokenType;
+  };
+}
+
+@WebSocketGateway({
+  cors: {
+    origin: '*',
+  },
+})
+export class EventsGateway implements OnGatewayConnection {
+  @WebSocketServer()
+  server: Server;
+
+  private readonly logger = new Logger(EventsGateway.name);
+
+  constructor(
+    private readonly jwtTokenVerifyGuard: JwtTokenVerifyGuard,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  /**
+   * Authenticate the socket with the same access token used by JwtTokenVerifyGuard
+   * The token is read from `auth.accessToken` or the `accessToken` handshake header
+   * @param client - Connecting socket
+   */
+  async handleConnection(client: ISocketWithDecodedAccessToken) {
+    try {
+      const token =
+        client.handshake.auth?.accessToken ||
+        client.handshake.headers['accesstoken'];
+      const accessToken =
+        typeof token === 'string' ? token.replace('Bearer ', '') : null;
+
+      const { decodedAccessToken } =
+        await this.jwtTokenVerifyGuard.verifyAccessToken(accessToken);
+
+      client.data.decodedAccessToken = decodedAccessToken;
+      await client.join(this.userRoom(decodedAccessToken.userId));
+    } catch (error) {
+      client.emit(SocketEvent.EXCEPTION, {
+        message: error.message || 'Unauthorized',
+        statusCode: error.status || 401,
+        date: new Date(),
+      });
+      client.disconnect(true);
+    }
+  }
+
+  @SubscribeMessage(SocketEvent.SUBSCRIBE_POST)
+  async subscribePost(
+    @ConnectedSocket() client: ISocketWithDecodedAccessToken,
+    @MessageBody() postId: string,
+  ) {
+    if (!postId || typeof postId !== 'string') return { joined: false };
+
+    // Subscribers receive the comments and likes, so private posts are only joinable by their author
+    const post = await this.prisma.post.findUnique({
+      where: { id: postId },
+      select: { authorId: true, isPrivate: true },
+    });
+    if (
+      !post ||
+      (post.isPrivate &&
+        post.authorId !== client.data.decodedAccessToken?.userId)
+    )
+      return { joined: false };
+
+    await client.join(this.postRoom(postId));
+    return { joined: true, postId };
+  }
+
+  @SubscribeMessage(SocketEvent.UNSUBSCRIBE_POST)
+  async unsubscribePost(
+    @ConnectedSocket() client: ISocketWithDecodedAccessToken,
+    @MessageBody() postId: string,
+  ) {
+    if (!postId) return { left: false };
+    await client.leave(this.postRoom(postId));
+    return { left: true, postId };
+  }
+
+  /**
+   * Push an event to the given users and post subscribers
+   * A socket in several of the target rooms only receives the event once
+   * @param event - Event name
+   * @param data - Event payload
+   * @param userIds - Users who should receive the event on every device
+   * @param postIds - Posts whose subscribers should receive the event
+   */
+  emit(
+    event: SocketEvent,
+    data: any,
+    { userIds = [], postIds = [] }: { userIds?: string[]; postIds?: string[] },
+  ) {
+    try {
+      const rooms = [
+        ...userIds.filter(Boolean).map((id) => this.userRoom(id)),
+        ...postIds.filter(Boolean).map((id) => this.postRoom(id)),
+      ];
+      if (!this.server || !rooms.length) return;
+
+      this.server.to(rooms).emit(event, { ...data, date: new Date() });
+    } catch (error) {
+      // Realtime delivery is best effort, never fail the HTTP request because of it
+      this.logger.error(`Failed to emit ${event}: ${error.message}`);
+    }
+  }
+
+  private userRoom(userId: string) {
+    return `${EVENTS_CONSTANTS.USER_ROOM_PREFIX}${userId}`;
+  }
+
+  private postRoom(postId: string) {
+    return `${EVENTS_CONSTANTS.POST_ROOM_PREFIX}${postId}`;
+  }
+}
@@ -0,0 +1,10 @@
+import { Global, Module } from '@nestjs/common';
+import { EventsGateway } from 'src/events/events.gateway';
+import { JwtTokenVerifyGuard } from 'src/guards/jwt-token-verify.guard';
+
+@Global()
+@Module({
+  providers: [EventsGateway, JwtTokenVerifyGuard],
+  exports: [EventsGateway],
+})
+export class EventsModule {}
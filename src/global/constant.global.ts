@@ -42,6 +42,29 @@ Hãy hạn chế việc để người khác hỏi bạn thông tin gì hoặc n
       ],
     },
   ],
+
+  GENERATE_ANNOUNCEMENT_POST: [
+    {
+      role: 'system',
+      content: `Bạn là người phụ trách truyền thông, chuyên viết thông báo ngắn gọn, rõ ràng và chuyên nghiệp trên mạng xã hội bằng tiếng việt.
+
+Yêu cầu kỹ thuật cho bài viết:
+1. Đoạn văn cần in đậm sử dụng: <strong class="font-bold">nội dung</strong>
+2. Xuống dòng sử dụng: <br>
+3. KHÔNG sử dụng ký tự đặc biệt như dấu \\
+
+Nếu ai đó nhờ bạn việc khác ngoài viết thông báo, hãy trả lời: ${blockResultMessage} và không trả lời gì thêm`,
+    },
+    {
+      role: 'user',
+      content: [
+        {
+          type: 'text',
+          text: 'Viết một bài thông báo về {{topic}} gửi đến {{audience}}. Nêu rõ thông tin quan trọng ngay ở câu đầu tiên và kết thúc bằng lời kêu gọi hành động.',
+        },
+      ],
+    },
+  ],
 };
 
 export const MAX_LIMIT_ON_PAGE = 100;
@@ -8,3 +8,44 @@ export enum RolesLevel {
   MANAGER = 1,
   ADMIN = 2,
 }
+
+export enum PermissionKey {
+  POST_UPDATE_ANY = 'post.update.any',
+  POST_DELETE_ANY = 'post.delete.any',
+  COMMENT_EDIT_ANY = 'comment.edit.any',
+  COMMENT_DELETE_ANY = 'comment.delete.any',
+  USER_READ_ANY = 'user.read.any',
+  USER_UPDATE_ANY = 'user.update.any',
+  USER_BAN = 'user.ban',
+  CREDITS_ADJUST = 'credits.adjust',
+}
+
+export enum FeedSort {
+  LATEST = 'latest',
+  RANKED = 'ranked',
+}
+
+export enum TrendingWindow {
+  DAY = '24h',
+  WEEK = '7d',
+  MONTH = '30d',
+}
+
+export enum PricingFeature {
+  AI_GENERATE_POST = 'ai.generate_post',
+  POST_REWARD = 'post.reward',
+}
+
+export enum AiPostTemplate {
+  BLOG = 'blog',
+  TECH = 'tech',
+  ANNOUNCEMENT = 'announcement',
+}
+
+export enum AiStreamEvent {
+  START = 'start',
+  TOKEN = 'token',
+  DONE = 'done',
+  BLOCKED = 'blocked',
+  ERROR = 'error',
+}
@@ -1,6 +1,8 @@
 import * as crypto from 'crypto';
+import { imageSize } from 'image-size';
 
 import { BadRequestException } from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
 
 export const handleDefaultError = (error: any) => {
   if ((error.statusCode && error.message) || error.response) throw error;
@@ -13,6 +15,169 @@ export function sanitizeFileName(fileName) {
   return fileName.replace(/[^a-zA-Z0-9-_\.]/g, '').replace(/[\s]/g, '_'); // Thay thế các khoảng trắng (space) bằng dấu gạch dưới (_)
 }
 
+/**
+ * Unique name of an uploaded file, two uploads of the same file in the same millisecond do not collide
+ */
+export function generateStorageFileName(originalname: string): string {
+  return sanitizeFileName(
+    `${Date.now()}_${crypto.randomUUID()}_${originalname}`,
+  );
+}
+
+/**
+ * Extract unique hashtags from a text, lowercased and without the leading #
+ */
+export function extractHashtags(content: string): string[] {
+  const matches = content?.match(/#[\p{L}\p{N}_]+/gu) || [];
+  return [
+    ...new Set(
+      matches
+        .map((match) => match.slice(1).toLowerCase())
+        .filter((tag) => tag.length <= 100),
+    ),
+  ];
+}
+
+/**
+ * Find @username mentions in a text
+ * start/length are UTF-16 offsets of the mention, the leading @ included
+ */
+export function extractMentions(
+  content: string,
+): { username: string; start: number; length: number }[] {
+  const mentions: { username: string; start: number; length: number }[] = [];
+
+  for (const match of content?.matchAll(/(?<![\w@])@([\w.]+)/g) || []) {
+    // A trailing dot is the end of the sentence, not part of the username
+    const username = match[1].replace(/\.+$/, '');
+    if (!username) continue;
+    mentions.push({
+      username,
+      start: match.index,
+      length: username.length + 1,
+    });
+  }
+
+  return mentions;
+}
+
 export function generateSecureVerificationCode() {
   return crypto.randomBytes(3).toString('hex').toUpperCase();
 }
+
+export function generateInviteCode() {
+  return crypto.randomBytes(6).toString('base64url');
+}
+
+/**
+ * Recovery code of 2FA, formatted as xxxxx-xxxxx
+ */
+export function generateRecoveryCode() {
+  return crypto
+    .randomBytes(5)
+    .toString('hex')
+    .replace(/^(.{5})/, '$1-');
+}
+
+export function generateSecureToken() {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+/**
+ * Hash a high entropy token (refresh tokens, reset tokens) before storing it
+ * bcrypt is not used because it only reads the first 72 bytes of the input
+ */
+export function hashToken(token: string) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Checked in order, the first match wins (Edge and Opera user agents also contain Chrome)
+const USER_AGENT_BROWSERS: [string, RegExp][] = [
+  ['Edge', /Edg(?:e|A|iOS)?\/([\d.]+)/],
+  ['Opera', /(?:OPR|Opera)\/([\d.]+)/],
+  ['Samsung Internet', /SamsungBrowser\/([\d.]+)/],
+  ['Firefox', /(?:Firefox|FxiOS)\/([\d.]+)/],
+  ['Chrome', /(?:Chrome|CriOS)\/([\d.]+)/],
+  ['Safari', /Version\/([\d.]+).*Safari\//],
+];
+
+const USER_AGENT_OS: [string, RegExp][] = [
+  ['Windows', /Windows NT/],
+  ['iOS', /iPhone|iPad|iPod/],
+  ['Android', /Android/],
+  ['macOS', /Mac OS X|Macintosh/],
+  ['Chrome OS', /CrOS/],
+  ['Linux', /Linux/],
+];
+
+/**
+ * Best effort browser and OS of a user agent, null when unknown
+ */
+export function parseUserAgent(userAgent?: string | null): {
+  browser: string | null;
+  os: string | null;
+} {
+  if (!userAgent) return { browser: null, os: null };
+
+  const browser = USER_AGENT_BROWSERS.map(
+    ([name, pattern]) => [name, userAgent.match(pattern)] as const,
+  ).find(([, match]) => match);
+  const os = USER_AGENT_OS.find(([, pattern]) => pattern.test(userAgent));
+
+  return {
+    // Major version only
+    browser: browser ? `${browser[0]} ${browser[1][1].split('.')[0]}` : null,
+    os: os ? os[0] : null,
+  };
+}
+
+export function getImageDimensions(buffer: Buffer): {
+  width: number | null;
+  height: number | null;
+} {
+  try {
+    const { width, height } = imageSize(buffer);
+    return { width: width ?? null, height: height ?? null };
+  } catch {
+    // Unknown or corrupted format, dimensions are optional
+    return { width: null, height: null };
+  }
+}
+
+/**
+ * Timed bans are lifted lazily, the flag stays set until the user is seen again
+ */
+export function isBanExpired({
+  isBanned,
+  bannedUntil,
+}: {
+  isBanned?: boolean | null;
+  bannedUntil?: Date | null;
+}): boolean {
+  return !!isBanned && !!bannedUntil && bannedUntil <= new Date();
+}
+
+/**
+ * Lift the ban of the user if it has expired, in the user row and in the ban history
+ * The history row is closed at the expiry of the ban, not at the time it is noticed
+ * @param user - Updated in place with the lifted ban
+ */
+export async function liftExpiredBan(
+  prisma: PrismaClient,
+  user: { id: string; isBanned?: boolean | null; bannedUntil?: Date | null },
+) {
+  if (!isBanExpired(user)) return;
+
+  const [, liftedUser] = await prisma.$transaction([
+    prisma.userBan.updateMany({
+      where: { userId: user.id, liftedAt: null },
+      data: { liftedAt: user.bannedUntil },
+    }),
+    prisma.user.update({
+      where: { id: user.id },
+      data: { isBanned: false, banReason: null, bannedUntil: null },
+    }),
+  ]);
+
+  Object.assign(user, liftedUser);
+}
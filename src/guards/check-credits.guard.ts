@@ -0,0 +1,51 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { CreditCharge } from 'src/decorators/credits.decorator';
+import { IRequestWithCreditReservation } from 'src/interfaces/interfaces.global';
+import { CreditService } from 'src/resources/credit/credit.service';
+import { PricingService } from 'src/resources/pricing/pricing.service';
+
+// Must run after JwtTokenVerifyGuard, which sets request.decodedAccessToken
+@Injectable()
+export class CheckCreditsGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private creditService: CreditService,
+    private pricingService: PricingService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const charge = this.reflector.get(CreditCharge, context.getHandler());
+
+    if (!charge) return true;
+
+    const request = context
+      .switchToHttp()
+      .getRequest() as IRequestWithCreditReservation;
+
+    if (!request.decodedAccessToken?.userId) {
+      throw new UnauthorizedException('Access token is missing');
+    }
+
+    const { userId } = request.decodedAccessToken;
+    const { price } = await this.pricingService.getPrice({
+      feature: charge.feature,
+      model: charge.model,
+      userId,
+    });
+
+    // Settled by CreditReservationInterceptor once the handler is done
+    request.creditReservation = await this.creditService.reserveCredits({
+      userId,
+      amount: price,
+      reason: charge.reason,
+    });
+
+    return true;
+  }
+}
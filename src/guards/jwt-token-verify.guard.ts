@@ -5,12 +5,13 @@ import {
   UnauthorizedException,
   ForbiddenException,
 } from '@nestjs/common';
-import { Observable } from 'rxjs';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { JwtService } from '@nestjs/jwt';
 import { Request as RequestExpress } from 'express';
 import { IDecodedAccecssTokenType } from 'src/interfaces/interfaces.global';
 import { User } from '@prisma/client';
+import { liftExpiredBan } from 'src/global/functions.global';
+import { AUTH_CONSTANTS } from 'src/resources/auth/auth.constants';
 
 interface RequestNewType extends RequestExpress {
   decodedAccessToken?: IDecodedAccecssTokenType;
@@ -23,13 +24,30 @@ export class JwtTokenVerifyGuard implements CanActivate {
     private readonly jwt: JwtService,
   ) {}
 
-  canActivate(
-    context: ExecutionContext,
-  ): boolean | Promise<boolean> | Observable<boolean> {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest() as RequestNewType;
 
     const accessToken = this.extractToken(request);
 
+    const { decodedAccessToken, user } =
+      await this.verifyAccessToken(accessToken);
+
+    request.decodedAccessToken = decodedAccessToken;
+    request.userData = user;
+
+    return true;
+  }
+
+  /**
+   * Verify an access token and its login session
+   * Shared by the HTTP guard and the socket gateway so both accept the same tokens
+   * @param accessToken - Raw access token (without the "Bearer " prefix)
+   * @returns Decoded token payload and the owner of the session
+   */
+  async verifyAccessToken(accessToken: string): Promise<{
+    decodedAccessToken: IDecodedAccecssTokenType;
+    user: User;
+  }> {
     if (!accessToken) {
       throw new UnauthorizedException('Access token is missing');
     }
@@ -38,16 +56,16 @@ export class JwtTokenVerifyGuard implements CanActivate {
     try {
       decodedAccessToken = this.jwt.verify(accessToken);
       decodedAccessToken.originalToken = accessToken;
-      request.decodedAccessToken = decodedAccessToken;
     } catch (error) {
       throw new UnauthorizedException('Invalid access token');
     }
 
-    return this.validateTokenKeyMatch({
+    const user = await this.validateTokenKeyMatch({
       accessToken,
       decodedAccessToken,
-      request,
     });
+
+    return { decodedAccessToken, user };
   }
 
   private extractToken(request: RequestNewType): string | null {
@@ -58,12 +76,10 @@ export class JwtTokenVerifyGuard implements CanActivate {
   private async validateTokenKeyMatch({
     accessToken,
     decodedAccessToken,
-    request,
   }: {
     decodedAccessToken: IDecodedAccecssTokenType;
     accessToken: string;
-    request: RequestNewType;
-  }): Promise<boolean> {
+  }): Promise<User> {
     if (!decodedAccessToken.userId || !decodedAccessToken.username)
       throw new UnauthorizedException(
         'Invalid access token or has been modified',
@@ -84,23 +100,29 @@ export class JwtTokenVerifyGuard implements CanActivate {
     if (!userSession) {
       throw new UnauthorizedException('Invalid login session');
     }
+    if (
+      Date.now() - userSession.lastActivity.getTime() >=
+      AUTH_CONSTANTS.SESSION_ACTIVITY_INTERVAL
+    ) {
+      await this.prismaService.userSession.update({
+        where: { id: userSession.id },
+        data: { lastActivity: new Date() },
+      });
+    }
 
-    if (!user || !user.refreshToken) {
+    if (!user) {
       throw new UnauthorizedException('User not found or has been deleted');
     }
-    if (user.isBanned) throw new ForbiddenException('User has been banned');
-
-    request.userData = user;
+    await liftExpiredBan(this.prismaService, user);
+    if (user.isBanned) {
+      throw new ForbiddenException({
+        statusCode: 403,
+        message: 'User has been banned',
+        reason: user.banReason,
+        bannedUntil: user.bannedUntil,
+      });
+    }
 
-    // let decodedRefreshToken: any;
-    // try {
-    //   decodedRefreshToken = this.jwt.verify(user.refreshToken);
-    // } catch (error) {
-    //   throw new UnauthorizedException('Invalid refresh token');
-    // }
-    // if (decodedAccessToken.key !== decodedRefreshToken.key) {
-    //   throw new UnauthorizedException('Tokens have been leaked');
-    // }
-    return true;
+    return user;
   }
 }
@@ -0,0 +1,48 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Permissions } from 'src/decorators/permissions.decorator';
+import { IRequestWithDecodedAccessToken } from 'src/interfaces/interfaces.global';
+import { PermissionService } from 'src/resources/permission/permission.service';
+
+// Must run after JwtTokenVerifyGuard, which sets request.decodedAccessToken
+@Injectable()
+export class PermissionGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private permissionService: PermissionService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requiredPermissions = this.reflector.get(
+      Permissions,
+      context.getHandler(),
+    );
+
+    if (!requiredPermissions || requiredPermissions.length === 0) return true;
+
+    const { decodedAccessToken } = context
+      .switchToHttp()
+      .getRequest() as IRequestWithDecodedAccessToken;
+
+    if (!decodedAccessToken?.userId) {
+      throw new UnauthorizedException('Access token is missing');
+    }
+
+    const hasPermissions = await this.permissionService.hasPermissions(
+      decodedAccessToken.userId,
+      requiredPermissions,
+    );
+
+    if (!hasPermissions) {
+      throw new ForbiddenException('Insufficient permissions');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,56 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { mergeMap, Observable } from 'rxjs';
+import { AuditOptions } from 'src/decorators/audit-log.decorator';
+import { getRequestIpAddress } from 'src/decorators/ip.decorator';
+import { IRequestWithDecodedAccessToken } from 'src/interfaces/interfaces.global';
+import { AuditLogService } from 'src/resources/audit-log/audit-log.service';
+
+// Must run after JwtTokenVerifyGuard, which sets request.decodedAccessToken
+@Injectable()
+export class AuditLogInterceptor implements NestInterceptor {
+  constructor(
+    private reflector: Reflector,
+    private auditLogService: AuditLogService,
+  ) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    const options = this.reflector.get(AuditOptions, context.getHandler());
+
+    if (!options) return next.handle();
+
+    const request = context
+      .switchToHttp()
+      .getRequest() as IRequestWithDecodedAccessToken;
+    const targetId = request.params[options.targetParam];
+
+    const before = await this.auditLogService.getSnapshot({
+      targetType: options.targetType,
+      targetId,
+    });
+
+    // Only successful actions are recorded, failed ones throw before this point
+    return next.handle().pipe(
+      mergeMap(async (result) => {
+        await this.auditLogService.record({
+          actorId: request.decodedAccessToken?.userId,
+          action: options.action,
+          targetType: options.targetType,
+          targetId,
+          before,
+          ipAddress: getRequestIpAddress(request),
+          userAgent: request.headers['user-agent'],
+        });
+        return result;
+      }),
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { catchError, mergeMap, Observable } from 'rxjs';
+import { IRequestWithCreditReservation } from 'src/interfaces/interfaces.global';
+import { CreditService } from 'src/resources/credit/credit.service';
+
+// Pipes run inside next.handle(), so a rejected body is refunded as well
+@Injectable()
+export class CreditReservationInterceptor implements NestInterceptor {
+  constructor(private creditService: CreditService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context
+      .switchToHttp()
+      .getRequest() as IRequestWithCreditReservation;
+
+    return next.handle().pipe(
+      mergeMap(async (result) => {
+        this.creditService.commitReservation(request.creditReservation);
+        return result;
+      }),
+      catchError(async (error) => {
+        await this.creditService.refundReservation(request.creditReservation);
+        throw error;
+      }),
+    );
+  }
+}
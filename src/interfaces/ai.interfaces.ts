@@ -7,3 +7,22 @@ export interface IAIMessagePromptType {
   role: 'system' | 'user' | 'assistant';
   content: string | IAIMessageContentType[];
 }
+
+export interface IAITemplateVariableType {
+  name: string;
+  description: string;
+  type: 'string' | 'number';
+  required: boolean;
+  default?: string | number;
+  // Max length of strings, max value of numbers
+  max: number;
+  min?: number;
+}
+
+export interface IAIPostTemplateType {
+  description: string;
+  prompts: IAIMessagePromptType[];
+  variables: IAITemplateVariableType[];
+  // Whether the free text prompt of the user is required
+  requiresPrompt: boolean;
+}
@@ -1,3 +1,4 @@
+import { CreditTransactionReason } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
 import { Request } from 'express';
 import { UserDataType } from 'src/libs/prisma-types';
@@ -30,6 +31,29 @@ export interface IPaginationResponseType<ResultDataType = any> {
   date: Date;
 }
 
+export interface ICursorPaginationResponseType<ResultDataType = any> {
+  message: string;
+  data: {
+    items: ResultDataType[];
+    pageSize: number;
+    nextCursor: string | null;
+    hasNextPage: boolean;
+    totalCount?: number; // Only returned when the client asks for totals
+  };
+  statusCode: number;
+  date: Date;
+}
+
+export interface ICursorType {
+  createdAt: Date;
+  id: string;
+}
+
+export interface ICursorPaginationParamsType {
+  cursor: ICursorType | null; // null for the first page
+  withTotal: boolean;
+}
+
 export interface IDecodedAccecssTokenType {
   userId: string;
   username: string;
@@ -39,6 +63,24 @@ export interface IDecodedAccecssTokenType {
   exp?: string | number;
 }
 
+export interface IDecodedTwoFactorChallengeType {
+  userId: string;
+  username: string;
+  purpose: '2fa';
+}
+
+export interface ITwoFactorChallengeResponseType {
+  twoFactorRequired: true;
+  // Sent to POST /auth/2fa/verify with the code
+  challengeToken: string;
+}
+
+export interface IDecodedRefreshTokenType
+  extends Omit<IDecodedAccecssTokenType, 'originalToken'> {
+  sessionId: string;
+  familyId: string;
+}
+
 export interface IDecodedAuthTokenType {
   id: string;
   auth_code: string;
@@ -68,6 +110,11 @@ export interface IRequestWithDecodedAuthToken extends Request {
   user: IDecodedAuthTokenType;
 }
 
+export interface IRequestWithCreditReservation
+  extends IRequestWithDecodedAccessToken {
+  creditReservation?: ICreditReservationType;
+}
+
 export interface IRequestWithFullSession
   extends IRequestWithDecodedAccessToken {
   sessionId: string;
@@ -86,3 +133,25 @@ export interface IWithAccessToken {
 export interface IUserDataWithAccessToken
   extends UserDataType,
     IWithAccessToken {}
+
+/**
+ * Credits already deducted for a request, refunded unless the request commits them
+ */
+export interface ICreditReservationType {
+  // Shared by the debit and the refund ledger entries
+  referenceId: string;
+  userId: string;
+  amount: Decimal;
+  reason: CreditTransactionReason;
+  balanceAfter: Decimal;
+  settled: boolean;
+}
+
+export interface IPriceType {
+  feature: string;
+  model: string;
+  basePrice: Decimal;
+  discountPercent: number;
+  // Base price after the discount of the user type
+  price: Decimal;
+}
@@ -15,6 +15,9 @@ export class JwtServiceCustom {
       userId: string;
       username: string;
       key?: string;
+      // Refresh tokens only
+      sessionId?: string;
+      familyId?: string;
     },
     options?: JwtSignOptions & { isRefreshToken?: boolean },
   ): Promise<string> {
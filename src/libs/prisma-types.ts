@@ -15,6 +15,7 @@ export const userDataSelect = {
   isActive: true,
   isVerified: true,
   isBanned: true,
+  twoFactorEnabled: true,
   createdAt: true,
   updatedAt: true,
   credits: true,
@@ -50,6 +51,42 @@ export type UserSessionDataType = Prisma.UserSessionGetPayload<{
   select: typeof userSessionDataSelect;
 }>;
 
+// Listed to the owner of the sessions, without the tokens
+export const authSessionDataSelect = {
+  id: true,
+  ipAddress: true,
+  userAgent: true,
+  lastActivity: true,
+  createdAt: true,
+  expiresAt: true,
+} satisfies Prisma.UserSessionSelect;
+
+export type AuthSessionDataType = Prisma.UserSessionGetPayload<{
+  select: typeof authSessionDataSelect;
+}>;
+
+export const mentionRangeDataSelect = {
+  start: true,
+  length: true,
+  mentionedUser: {
+    select: { id: true, username: true },
+  },
+} satisfies Prisma.MentionSelect;
+
+export const postMediaDataSelect = {
+  id: true,
+  url: true,
+  mimeType: true,
+  size: true,
+  width: true,
+  height: true,
+  order: true,
+} satisfies Prisma.PostMediaSelect;
+
+export type PostMediaDataType = Prisma.PostMediaGetPayload<{
+  select: typeof postMediaDataSelect;
+}>;
+
 export const postDataSelect = {
   id: true,
   content: true,
@@ -61,6 +98,16 @@ export const postDataSelect = {
   author: {
     select: userDataSelect,
   },
+  media: {
+    select: postMediaDataSelect,
+    orderBy: { order: 'asc' },
+  },
+  // Only the mentions of the post itself, not those of its comments
+  mentions: {
+    where: { commentId: null },
+    select: mentionRangeDataSelect,
+    orderBy: { start: 'asc' },
+  },
 } satisfies Prisma.PostSelect;
 
 export const postDataInclude = {
@@ -113,6 +160,10 @@ export type FollowDataType = Prisma.FollowGetPayload<{
   select: typeof followDataSelect;
 }>;
 
+export type FollowerDataType = Omit<FollowDataType, 'following'> & {
+  follower: UserDataWithIsFollowedType;
+};
+
 export const postCommentDataSelect = {
   id: true,
   content: true,
@@ -127,8 +178,338 @@ export const postCommentDataSelect = {
   author: {
     select: userDataSelect,
   },
+  mentions: {
+    select: mentionRangeDataSelect,
+    orderBy: { start: 'asc' },
+  },
 } satisfies Prisma.PostCommentSelect;
 
 export type PostCommentDataType = Prisma.PostCommentGetPayload<{
   select: typeof postCommentDataSelect;
 }>;
+
+export const notificationDataSelect = {
+  id: true,
+  type: true,
+  isRead: true,
+  readAt: true,
+  createdAt: true,
+  postId: true,
+  commentId: true,
+  actor: {
+    select: userDataSelect,
+  },
+} satisfies Prisma.NotificationSelect;
+
+export type NotificationDataType = Prisma.NotificationGetPayload<{
+  select: typeof notificationDataSelect;
+}>;
+
+export const messageDataSelect = {
+  id: true,
+  conversationId: true,
+  content: true,
+  createdAt: true,
+  sender: {
+    select: userDataSelect,
+  },
+} satisfies Prisma.MessageSelect;
+
+export type MessageDataType = Prisma.MessageGetPayload<{
+  select: typeof messageDataSelect;
+}>;
+
+export const conversationDataSelect = {
+  id: true,
+  lastMessageAt: true,
+  createdAt: true,
+  userOne: {
+    select: userDataSelect,
+  },
+  userTwo: {
+    select: userDataSelect,
+  },
+  messages: {
+    select: messageDataSelect,
+    orderBy: { createdAt: 'desc' },
+    take: 1,
+  },
+} satisfies Prisma.ConversationSelect;
+
+export type ConversationDataType = Prisma.ConversationGetPayload<{
+  select: typeof conversationDataSelect;
+}>;
+
+export type ConversationWithParticipantType = Omit<
+  ConversationDataType,
+  'userOne' | 'userTwo' | 'messages'
+> & {
+  participant: UserDataType;
+  lastMessage: MessageDataType | null;
+};
+
+export const serverDataSelect = {
+  id: true,
+  name: true,
+  description: true,
+  icon: true,
+  memberCount: true,
+  createdAt: true,
+  updatedAt: true,
+  owner: {
+    select: userDataSelect,
+  },
+} satisfies Prisma.ServerSelect;
+
+export type ServerDataType = Prisma.ServerGetPayload<{
+  select: typeof serverDataSelect;
+}>;
+
+export const channelDataSelect = {
+  id: true,
+  serverId: true,
+  name: true,
+  topic: true,
+  position: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.ChannelSelect;
+
+export type ChannelDataType = Prisma.ChannelGetPayload<{
+  select: typeof channelDataSelect;
+}>;
+
+export const serverMemberDataSelect = {
+  id: true,
+  serverId: true,
+  role: true,
+  nickname: true,
+  joinedAt: true,
+  user: {
+    select: userDataSelect,
+  },
+} satisfies Prisma.ServerMemberSelect;
+
+export type ServerMemberDataType = Prisma.ServerMemberGetPayload<{
+  select: typeof serverMemberDataSelect;
+}>;
+
+export const serverInviteDataSelect = {
+  id: true,
+  code: true,
+  serverId: true,
+  maxUses: true,
+  uses: true,
+  expiresAt: true,
+  createdAt: true,
+} satisfies Prisma.ServerInviteSelect;
+
+export type ServerInviteDataType = Prisma.ServerInviteGetPayload<{
+  select: typeof serverInviteDataSelect;
+}>;
+
+export const permissionDataSelect = {
+  id: true,
+  key: true,
+  description: true,
+} satisfies Prisma.PermissionSelect;
+
+export type PermissionDataType = Prisma.PermissionGetPayload<{
+  select: typeof permissionDataSelect;
+}>;
+
+export const userPermissionDataSelect = {
+  userId: true,
+  granted: true,
+  createdAt: true,
+  permission: {
+    select: permissionDataSelect,
+  },
+} satisfies Prisma.UserPermissionSelect;
+
+export type UserPermissionDataType = Prisma.UserPermissionGetPayload<{
+  select: typeof userPermissionDataSelect;
+}>;
+
+export const hashtagDataSelect = {
+  id: true,
+  tag: true,
+  createdAt: true,
+  _count: {
+    select: { posts: true },
+  },
+} satisfies Prisma.HashtagSelect;
+
+export type HashtagDataType = Prisma.HashtagGetPayload<{
+  select: typeof hashtagDataSelect;
+}>;
+
+export const mentionDataSelect = {
+  id: true,
+  start: true,
+  length: true,
+  createdAt: true,
+  author: {
+    select: userDataSelect,
+  },
+  post: {
+    select: postDataSelect,
+  },
+  comment: {
+    select: {
+      id: true,
+      content: true,
+      createdAt: true,
+    },
+  },
+} satisfies Prisma.MentionSelect;
+
+export type MentionDataType = Prisma.MentionGetPayload<{
+  select: typeof mentionDataSelect;
+}>;
+
+export const reportDataSelect = {
+  id: true,
+  targetType: true,
+  reason: true,
+  details: true,
+  status: true,
+  claimedAt: true,
+  resolvedAt: true,
+  action: true,
+  resolutionNote: true,
+  createdAt: true,
+  updatedAt: true,
+  reporter: {
+    select: userDataSelect,
+  },
+  targetUser: {
+    select: userDataSelect,
+  },
+  assignee: {
+    select: userDataSelect,
+  },
+  resolvedBy: {
+    select: userDataSelect,
+  },
+  post: {
+    select: { id: true, content: true, isPrivate: true, createdAt: true },
+  },
+  comment: {
+    select: { id: true, content: true, postId: true, createdAt: true },
+  },
+} satisfies Prisma.ReportSelect;
+
+export type ReportDataType = Prisma.ReportGetPayload<{
+  select: typeof reportDataSelect;
+}>;
+
+export const userBanDataSelect = {
+  id: true,
+  reason: true,
+  expiresAt: true,
+  liftedAt: true,
+  createdAt: true,
+  user: {
+    select: userDataSelect,
+  },
+  bannedBy: {
+    select: userDataSelect,
+  },
+  liftedBy: {
+    select: userDataSelect,
+  },
+} satisfies Prisma.UserBanSelect;
+
+export type UserBanDataType = Prisma.UserBanGetPayload<{
+  select: typeof userBanDataSelect;
+}>;
+
+// Fields recorded in the audit log before and after a privileged action
+export const auditPostSnapshotSelect = {
+  id: true,
+  content: true,
+  isPrivate: true,
+  authorId: true,
+} satisfies Prisma.PostSelect;
+
+export const auditCommentSnapshotSelect = {
+  id: true,
+  content: true,
+  postId: true,
+  authorId: true,
+  replyToId: true,
+} satisfies Prisma.PostCommentSelect;
+
+export const auditUserSnapshotSelect = {
+  id: true,
+  username: true,
+  email: true,
+  fullName: true,
+  displayName: true,
+  phoneNumber: true,
+  age: true,
+  type: true,
+  isActive: true,
+  isVerified: true,
+  isBanned: true,
+  banReason: true,
+  bannedUntil: true,
+  credits: true,
+} satisfies Prisma.UserSelect;
+
+export const auditLogDataSelect = {
+  id: true,
+  action: true,
+  targetType: true,
+  targetId: true,
+  before: true,
+  after: true,
+  ipAddress: true,
+  userAgent: true,
+  createdAt: true,
+  actor: {
+    select: userDataSelect,
+  },
+} satisfies Prisma.AuditLogSelect;
+
+export type AuditLogDataType = Prisma.AuditLogGetPayload<{
+  select: typeof auditLogDataSelect;
+}>;
+
+export const creditTransactionDataSelect = {
+  id: true,
+  amount: true,
+  balanceAfter: true,
+  reason: true,
+  referenceId: true,
+  createdAt: true,
+} satisfies Prisma.CreditTransactionSelect;
+
+export type CreditTransactionDataType = Prisma.CreditTransactionGetPayload<{
+  select: typeof creditTransactionDataSelect;
+}>;
+
+export const pricingRuleDataSelect = {
+  id: true,
+  feature: true,
+  model: true,
+  amount: true,
+  updatedAt: true,
+} satisfies Prisma.PricingRuleSelect;
+
+export type PricingRuleDataType = Prisma.PricingRuleGetPayload<{
+  select: typeof pricingRuleDataSelect;
+}>;
+
+export const pricingDiscountDataSelect = {
+  percent: true,
+  updatedAt: true,
+  userType: {
+    select: userTypeDataSelect,
+  },
+} satisfies Prisma.PricingDiscountSelect;
+
+export type PricingDiscountDataType = Prisma.PricingDiscountGetPayload<{
+  select: typeof pricingDiscountDataSelect;
+}>;
@@ -4,11 +4,16 @@ import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { ValidationPipe } from '@nestjs/common';
 import * as cookieParser from 'cookie-parser';
 import configuration from 'src/configs/configuration';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import {
+  StorageDriver,
+  STORAGE_CONSTANTS,
+} from 'src/storage/storage.constants';
 
 const config = configuration();
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
 
   const configDocument = new DocumentBuilder()
     .setTitle('Social Media API')
@@ -31,6 +36,13 @@ async function bootstrap() {
   // Use Cookie Parser middleware
   app.use(cookieParser());
 
+  // Serve uploaded files when the local storage driver is used
+  if (config.STORAGE_DRIVER === StorageDriver.LOCAL) {
+    app.useStaticAssets(config.STORAGE_LOCAL_PATH, {
+      prefix: STORAGE_CONSTANTS.LOCAL_STATIC_PREFIX,
+    });
+  }
+
   await app.listen(config.SERVER_PORT, () => {
     console.log(`Server is running on http://localhost:${config.SERVER_PORT}`);
     console.log(
@@ -4,6 +4,9 @@ import { FileTypeValidator } from '@nestjs/common';
 @Injectable()
 export class FilesIsImageValidationPipe implements PipeTransform {
   transform(files: Express.Multer.File[]) {
+    // Files are optional on some routes
+    if (!files) return [];
+
     const fileTypeValidator = new FileTypeValidator({ fileType: 'image/*' });
     const isValidImgs = files
       .map((file) => fileTypeValidator.isValid(file))
@@ -0,0 +1,58 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AuditLogService } from './audit-log.service';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { AuditAction, AuditTargetType } from '@prisma/client';
+import { RoleGuard } from 'src/guards/role.guard';
+import { normalizePaginationParams } from 'src/utils/utils';
+import { getAuditLogsDecorator } from 'src/resources/audit-log/audit-log.decorators';
+
+@ApiTags('Audit Log')
+@ApiBearerAuth()
+@UseGuards(AuthGuard('jwt'), RoleGuard)
+@Controller('audit-log')
+export class AuditLogController {
+  constructor(private readonly auditLogService: AuditLogService) {}
+
+  @Get('/')
+  @getAuditLogsDecorator()
+  getAuditLogs(
+    @Query('page') _page: string,
+    @Query('limit') _limit: string,
+    @Query('actorId') actorId: string,
+    @Query('action') action: AuditAction,
+    @Query('targetType') targetType: AuditTargetType,
+    @Query('targetId') targetId: string,
+    @Query('from') _from: string,
+    @Query('to') _to: string,
+  ) {
+    const { limit, page } = normalizePaginationParams({
+      limit: +_limit,
+      page: +_page,
+    });
+    const from = _from ? new Date(_from) : undefined;
+    const to = _to ? new Date(_to) : undefined;
+    if ([from, to].some((date) => date && isNaN(date.getTime()))) {
+      throw new BadRequestException('Invalid date');
+    }
+
+    return this.auditLogService.getAuditLogs({
+      actorId,
+      action: Object.values(AuditAction).includes(action) ? action : undefined,
+      targetType: Object.values(AuditTargetType).includes(targetType)
+        ? targetType
+        : undefined,
+      targetId,
+      from,
+      to,
+      limit,
+      page,
+    });
+  }
+}
@@ -0,0 +1,46 @@
+import { applyDecorators } from '@nestjs/common';
+import { ApiOperation, ApiQuery } from '@nestjs/swagger';
+import { AuditAction, AuditTargetType } from '@prisma/client';
+import { ApiQueryLimitAndPage } from 'src/decorators/pagination.decorators';
+import { Roles } from 'src/decorators/roles.decorator';
+import { RolesLevel } from 'src/global/enums.global';
+
+export const getAuditLogsDecorator = () =>
+  applyDecorators(
+    Roles([RolesLevel.ADMIN]),
+    ApiOperation({
+      summary: 'Get audit logs (Admin)',
+      description:
+        'Retrieve a paginated list of privileged actions, newest first',
+    }),
+    ApiQueryLimitAndPage(),
+    ApiQuery({
+      name: 'actorId',
+      required: false,
+      description: 'User who performed the action',
+    }),
+    ApiQuery({
+      name: 'action',
+      required: false,
+      enum: AuditAction,
+    }),
+    ApiQuery({
+      name: 'targetType',
+      required: false,
+      enum: AuditTargetType,
+    }),
+    ApiQuery({
+      name: 'targetId',
+      required: false,
+    }),
+    ApiQuery({
+      name: 'from',
+      required: false,
+      description: 'ISO date, only entries created at or after it',
+    }),
+    ApiQuery({
+      name: 'to',
+      required: false,
+      description: 'ISO date, only entries created at or before it',
+    }),
+  );
@@ -0,0 +1,12 @@
+import { Global, Module } from '@nestjs/common';
+import { AuditLogService } from './audit-log.service';
+import { AuditLogController } from './audit-log.controller';
+
+// Global so any module can use Audit() without importing it
+@Global()
+@Module({
+  controllers: [AuditLogController],
+  providers: [AuditLogService],
+  exports: [AuditLogService],
+})
+export class AuditLogModule {}
@@ -0,0 +1,210 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AuditAction, AuditTargetType, Prisma } from '@prisma/client';
+import { handleDefaultError } from 'src/global/functions.global';
+import { IPaginationResponseType } from 'src/interfaces/interfaces.global';
+import {
+  auditCommentSnapshotSelect,
+  auditLogDataSelect,
+  AuditLogDataType,
+  auditPostSnapshotSelect,
+  auditUserSnapshotSelect,
+} from 'src/libs/prisma-types';
+import { PrismaService } from 'src/prisma/prisma.service';
+
+type AuditSnapshotType = Record<string, unknown> | null;
+
+@Injectable()
+export class AuditLogService {
+  private readonly logger = new Logger(AuditLogService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Read the audited fields of a target, null when it does not exist
+   */
+  async getSnapshot({
+    targetType,
+    targetId,
+  }: {
+    targetType: AuditTargetType;
+    targetId: string;
+  }): Promise<AuditSnapshotType> {
+    if (!targetId) return null;
+
+    let snapshot: object | null;
+    switch (targetType) {
+      case AuditTargetType.POST:
+        snapshot = await this.prisma.post.findUnique({
+          where: { id: targetId },
+          select: auditPostSnapshotSelect,
+        });
+        break;
+      case AuditTargetType.COMMENT:
+        snapshot = await this.prisma.postComment.findUnique({
+          where: { id: targetId },
+          select: auditCommentSnapshotSelect,
+        });
+        break;
+      case AuditTargetType.USER:
+        snapshot = await this.prisma.user.findUnique({
+          where: { id: targetId },
+          select: auditUserSnapshotSelect,
+        });
+        break;
+    }
+
+    // Dates and decimals are compared and stored in their JSON form
+    return snapshot ? JSON.parse(JSON.stringify(snapshot)) : null;
+  }
+
+  /**
+   * Write an audit log entry with the fields changed by the action
+   * Errors are only logged, callers record once the action is applied and cannot roll it back
+   */
+  async record({
+    actorId,
+    action,
+    targetType,
+    targetId,
+    before,
+    ipAddress,
+    userAgent,
+  }: {
+    actorId?: string;
+    action: AuditAction;
+    targetType: AuditTargetType;
+    targetId: string;
+    before: AuditSnapshotType;
+    ipAddress?: string;
+    userAgent?: string;
+  }): Promise<void> {
+    try {
+      const after = await this.getSnapshot({ targetType, targetId });
+      const diff = this.getDiff({ before, after });
+
+      await this.prisma.auditLog.create({
+        data: {
+          actorId,
+          action,
+          targetType,
+          targetId,
+          before: diff.before ?? undefined,
+          after: diff.after ?? undefined,
+          ipAddress,
+          userAgent,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to write audit log ${action} on ${targetType} ${targetId}`,
+        error?.stack,
+      );
+    }
+  }
+
+  /**
+   * Query the audit log, newest first
+   * @param actorId - Optional filter by the user who performed the action
+   * @param action - Optional filter by action
+   * @param targetType - Optional filter by target type
+   * @param targetId - Optional filter by target
+   * @param from - Optional lower bound of the creation date
+   * @param to - Optional upper bound of the creation date
+   */
+  async getAuditLogs({
+    actorId,
+    action,
+    targetType,
+    targetId,
+    from,
+    to,
+    limit,
+    page,
+  }: {
+    actorId?: string;
+    action?: AuditAction;
+    targetType?: AuditTargetType;
+    targetId?: string;
+    from?: Date;
+    to?: Date;
+    limit: number;
+    page: number;
+  }): Promise<IPaginationResponseType<AuditLogDataType>> {
+    try {
+      const whereQuery: Prisma.AuditLogWhereInput = {
+        actorId: actorId || undefined,
+        action: action || undefined,
+        targetType: targetType || undefined,
+        targetId: targetId || undefined,
+        createdAt: from || to ? { gte: from, lte: to } : undefined,
+      };
+
+      const [totalCount, auditLogs] = await this.prisma.$transaction([
+        this.prisma.auditLog.count({ where: whereQuery }),
+        this.prisma.auditLog.findMany({
+          where: whereQuery,
+          take: limit,
+          skip: (page - 1) * limit,
+          orderBy: { createdAt: 'desc' },
+          select: auditLogDataSelect,
+        }),
+      ]);
+
+      const totalPage = Math.ceil(totalCount / limit);
+      const hasNextPage = page * limit < totalCount;
+      const hasPreviousPage = !!totalCount && page > 1;
+
+      return {
+        message: 'Get audit logs successfully',
+        data: {
+          items: auditLogs,
+          totalCount,
+          totalPage,
+          currentPage: page,
+          pageSize: limit,
+          hasNextPage,
+          hasPreviousPage,
+        },
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  //   ----------------- Utils
+  /**
+   * Keep only the fields that changed, a deleted target keeps its whole snapshot
+   */
+  private getDiff({
+    before,
+    after,
+  }: {
+    before: AuditSnapshotType;
+    after: AuditSnapshotType;
+  }): {
+    before: Prisma.InputJsonObject | null;
+    after: Prisma.InputJsonObject | null;
+  } {
+    if (!before || !after) {
+      return {
+        before: before as Prisma.InputJsonObject,
+        after: after as Prisma.InputJsonObject,
+      };
+    }
+
+    const changedKeys = Object.keys({ ...before, ...after }).filter(
+      (key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]),
+    );
+
+    return {
+      before: Object.fromEntries(
+        changedKeys.map((key) => [key, before[key] ?? null]),
+      ) as Prisma.InputJsonObject,
+      after: Object.fromEntries(
+        changedKeys.map((key) => [key, after[key] ?? null]),
+      ) as Prisma.InputJsonObject,
+    };
+  }
+}
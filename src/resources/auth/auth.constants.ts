@@ -1,4 +1,23 @@
 export const AUTH_CONSTANTS = {
   SESSION_EXPIRES: 1, // 1 days
+  PASSWORD_RESET_EXPIRES: 15, // 15 minutes
+  // lastActivity of a session is written at most once per interval
+  SESSION_ACTIVITY_INTERVAL: 60 * 1000, // 1 minute
+  // Failed logins are counted per account and per IP, the counters reset after the TTL
+  LOGIN_ATTEMPTS_PREFIX: 'login:attempts:',
+  LOGIN_LOCK_PREFIX: 'login:lock:',
+  LOGIN_ATTEMPTS_TTL: 15 * 60 * 1000, // 15 minutes
+  // Failures answered without delay, the delay doubles on each failure after them
+  LOGIN_FREE_ATTEMPTS: 3,
+  LOGIN_DELAY_BASE: 500, // 500ms
+  LOGIN_DELAY_MAX: 8 * 1000, // 8 seconds
+  LOGIN_ACCOUNT_LOCK_ATTEMPTS: 10,
+  LOGIN_IP_LOCK_ATTEMPTS: 50,
+  LOGIN_LOCK_DURATION: 15 * 60 * 1000, // 15 minutes
+  TWO_FACTOR_ISSUER: 'SMOTeam',
+  TWO_FACTOR_CHALLENGE_EXPIRES: '5m',
+  TWO_FACTOR_RECOVERY_CODES: 10,
+  // Codes of the previous and next 30 seconds are accepted, for clock drift
+  TWO_FACTOR_WINDOW: 1,
   DEFAULT_USER_TYPE_ID: '588b1a65-426a-468c-9365-dc1c9b851a79',
 };
@@ -1,9 +1,11 @@
 import {
   Body,
   Controller,
+  Delete,
   Get,
-  Headers,
+  Param,
   Post,
+  Query,
   Res,
   UseGuards,
 } from '@nestjs/common';
@@ -12,12 +14,32 @@ import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
 import { IDecodedAccecssTokenType } from 'src/interfaces/interfaces.global';
 import { UserLoginDto } from 'src/resources/auth/dto/UserLogin.dto';
 import { UserRegisterDto } from 'src/resources/auth/dto/UserRegister.dto';
+import { RefreshTokenDto } from 'src/resources/auth/dto/RefreshToken.dto';
+import {
+  ForgotPasswordDto,
+  ResetPasswordDto,
+} from 'src/resources/auth/dto/PasswordReset.dto';
+import {
+  TwoFactorCodeDto,
+  TwoFactorPasswordDto,
+  TwoFactorVerifyDto,
+} from 'src/resources/auth/dto/TwoFactor.dto';
 import {
   decoratorsAuthLogin,
   decoratorsAuthLogout,
   decoratorsAuthRegister,
-  decoratorsRenewSession,
+  decoratorsDisableTwoFactor,
+  decoratorsEnableTwoFactor,
+  decoratorsForgotPassword,
+  decoratorsGetSessions,
+  decoratorsRefreshSession,
+  decoratorsRegenerateRecoveryCodes,
+  decoratorsResetPassword,
+  decoratorsRevokeSession,
+  decoratorsRevokeSessions,
+  decoratorsSetupTwoFactor,
   decoratorsValidateSession,
+  decoratorsVerifyTwoFactorLogin,
 } from 'src/resources/auth/auth.decorators';
 import { DecodedAccessToken } from 'src/decorators/decodedAccessToken.decorator';
 import { UserAgent } from 'src/decorators/utils.decorator';
@@ -83,9 +105,111 @@ export class AuthController {
     return this.authService.authLogout(decodedAccessToken);
   }
 
-  @Post('/renew-session')
-  @decoratorsRenewSession()
-  async refreshToken(@Headers('accessToken') accessToken: string) {
-    return this.authService.renewSession(accessToken);
+  @Post('/refresh-token')
+  @decoratorsRefreshSession()
+  refreshSession(@Body() { refreshToken }: RefreshTokenDto) {
+    return this.authService.refreshSession(refreshToken);
+  }
+
+  @Post('/password/forgot')
+  @decoratorsForgotPassword()
+  forgotPassword(@Body() data: ForgotPasswordDto) {
+    return this.authService.forgotPassword(data);
+  }
+
+  @Post('/password/reset')
+  @decoratorsResetPassword()
+  resetPassword(@Body() data: ResetPasswordDto) {
+    return this.authService.resetPassword(data);
+  }
+
+  @Post('/2fa/verify')
+  @decoratorsVerifyTwoFactorLogin()
+  verifyTwoFactorLogin(
+    @Body() data: TwoFactorVerifyDto,
+    @UserAgent() userAgent: string,
+    @IpAddress() ipAddress: string,
+  ) {
+    return this.authService.verifyTwoFactorLogin({
+      data,
+      userAgent,
+      ipAddress,
+    });
+  }
+
+  @Post('/2fa/setup')
+  @decoratorsSetupTwoFactor()
+  setupTwoFactor(
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+  ) {
+    return this.authService.setupTwoFactor(decodedAccessToken.userId);
+  }
+
+  @Post('/2fa/enable')
+  @decoratorsEnableTwoFactor()
+  enableTwoFactor(
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Body() data: TwoFactorCodeDto,
+  ) {
+    return this.authService.enableTwoFactor({
+      userId: decodedAccessToken.userId,
+      data,
+    });
+  }
+
+  @Post('/2fa/disable')
+  @decoratorsDisableTwoFactor()
+  disableTwoFactor(
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Body() data: TwoFactorPasswordDto,
+  ) {
+    return this.authService.disableTwoFactor({
+      userId: decodedAccessToken.userId,
+      data,
+    });
+  }
+
+  @Post('/2fa/recovery-codes')
+  @decoratorsRegenerateRecoveryCodes()
+  regenerateRecoveryCodes(
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Body() data: TwoFactorPasswordDto,
+  ) {
+    return this.authService.regenerateRecoveryCodes({
+      userId: decodedAccessToken.userId,
+      data,
+    });
+  }
+
+  @Get('/sessions')
+  @decoratorsGetSessions()
+  getSessions(
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+  ) {
+    return this.authService.getSessions(decodedAccessToken);
+  }
+
+  @Delete('/sessions/:sessionId')
+  @decoratorsRevokeSession()
+  revokeSession(
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Param('sessionId') sessionId: string,
+  ) {
+    return this.authService.revokeSession({
+      userId: decodedAccessToken.userId,
+      sessionId,
+    });
+  }
+
+  @Delete('/sessions')
+  @decoratorsRevokeSessions()
+  revokeSessions(
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Query('others') others?: string,
+  ) {
+    return this.authService.revokeSessions({
+      decodedAccessToken,
+      others: others === 'true',
+    });
   }
 }
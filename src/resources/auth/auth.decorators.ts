@@ -1,6 +1,16 @@
 import { applyDecorators, UseGuards } from '@nestjs/common';
-import { ApiHeader, ApiOperation } from '@nestjs/swagger';
+import { ApiBody, ApiHeader, ApiOperation, ApiQuery } from '@nestjs/swagger';
 import { JwtTokenVerifyGuard } from 'src/guards/jwt-token-verify.guard';
+import { RefreshTokenDto } from 'src/resources/auth/dto/RefreshToken.dto';
+import {
+  ForgotPasswordDto,
+  ResetPasswordDto,
+} from 'src/resources/auth/dto/PasswordReset.dto';
+import {
+  TwoFactorCodeDto,
+  TwoFactorPasswordDto,
+  TwoFactorVerifyDto,
+} from 'src/resources/auth/dto/TwoFactor.dto';
 
 export const decoratorsAuthLogin = () =>
   applyDecorators(
@@ -44,14 +54,160 @@ export const decoratorsAuthLogout = () =>
     }),
   );
 
-export const decoratorsRenewSession = () =>
+export const decoratorsRefreshSession = () =>
   applyDecorators(
     ApiOperation({
-      summary: 'Renew Session API',
-      description: 'Renew session API with a access token',
+      summary: 'Refresh Session API',
+      description:
+        'Issue a new access token with the refresh token of the session. The refresh token is rotated, reusing an old one revokes the session.',
+    }),
+    ApiBody({
+      type: RefreshTokenDto,
+    }),
+  );
+
+export const decoratorsForgotPassword = () =>
+  applyDecorators(
+    ApiOperation({
+      summary: 'Forgot Password API',
+      description:
+        'Email a single use password reset token. The response is the same whether the email exists or not.',
+    }),
+    ApiBody({
+      type: ForgotPasswordDto,
+    }),
+  );
+
+export const decoratorsResetPassword = () =>
+  applyDecorators(
+    ApiOperation({
+      summary: 'Reset Password API',
+      description:
+        'Set a new password with the emailed token. Every session of the user is logged out.',
+    }),
+    ApiBody({
+      type: ResetPasswordDto,
+    }),
+  );
+
+export const decoratorsVerifyTwoFactorLogin = () =>
+  applyDecorators(
+    ApiOperation({
+      summary: 'Verify Two-Factor Login API',
+      description:
+        'Complete a login that requires 2FA with the challenge token and a code of the authenticator app or a recovery code',
+    }),
+    ApiBody({
+      type: TwoFactorVerifyDto,
+    }),
+  );
+
+export const decoratorsSetupTwoFactor = () =>
+  applyDecorators(
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Setup Two-Factor API',
+      description:
+        'Generate a new TOTP secret and its otpauth URI. 2FA is enabled once a code is verified.',
+    }),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+    }),
+  );
+
+export const decoratorsEnableTwoFactor = () =>
+  applyDecorators(
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Enable Two-Factor API',
+      description:
+        'Verify a code of the new secret to enable 2FA. The recovery codes are only returned once.',
     }),
     ApiHeader({
       name: 'accessToken',
       required: true,
     }),
+    ApiBody({
+      type: TwoFactorCodeDto,
+    }),
+  );
+
+export const decoratorsDisableTwoFactor = () =>
+  applyDecorators(
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Disable Two-Factor API',
+      description: 'Disable 2FA, requires the current password',
+    }),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+    }),
+    ApiBody({
+      type: TwoFactorPasswordDto,
+    }),
+  );
+
+export const decoratorsRegenerateRecoveryCodes = () =>
+  applyDecorators(
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Regenerate Recovery Codes API',
+      description:
+        'Replace every recovery code, requires the current password. The new codes are only returned once.',
+    }),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+    }),
+    ApiBody({
+      type: TwoFactorPasswordDto,
+    }),
+  );
+
+export const decoratorsGetSessions = () =>
+  applyDecorators(
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Get Sessions API',
+      description:
+        'List the login sessions of the user with their device, the current session is flagged',
+    }),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+    }),
+  );
+
+export const decoratorsRevokeSession = () =>
+  applyDecorators(
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Revoke Session API',
+      description: 'Log out a session of the user',
+    }),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+    }),
+  );
+
+export const decoratorsRevokeSessions = () =>
+  applyDecorators(
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Revoke Sessions API',
+      description:
+        'Log out every session of the user, or every other session with others=true',
+    }),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+    }),
+    ApiQuery({
+      name: 'others',
+      description: 'Keep the current session (true/false)',
+      required: false,
+    }),
   );
@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { HttpModule } from '@nestjs/axios';
+import { EmailModule } from 'src/resources/email/email.module';
 
 @Module({
-  imports: [HttpModule],
+  imports: [HttpModule, EmailModule],
   controllers: [AuthController],
   providers: [AuthService],
 })
@@ -2,43 +2,92 @@ import {
   BadRequestException,
   ConflictException,
   ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Inject,
   Injectable,
+  Logger,
   NotFoundException,
   UnauthorizedException,
 } from '@nestjs/common';
-import { handleDefaultError } from 'src/global/functions.global';
+import {
+  generateRecoveryCode,
+  generateSecureToken,
+  handleDefaultError,
+  hashToken,
+  liftExpiredBan,
+  parseUserAgent,
+} from 'src/global/functions.global';
 import {
   IDecodedAccecssTokenType,
+  IDecodedRefreshTokenType,
+  IDecodedTwoFactorChallengeType,
   IResponseType,
+  ITwoFactorChallengeResponseType,
   IUserDataWithAccessToken,
 } from 'src/interfaces/interfaces.global';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { UserLoginDto } from 'src/resources/auth/dto/UserLogin.dto';
 import * as bcrypt from 'bcryptjs';
-import { v4 as uuidv4, v4 } from 'uuid';
+import { v4 as uuidv4 } from 'uuid';
 
 import { UserRegisterDto } from 'src/resources/auth/dto/UserRegister.dto';
 import { JwtServiceCustom } from 'src/jwt/jwt.service';
 
 import {
+  authSessionDataSelect,
+  AuthSessionDataType,
   userDataSelect,
   UserDataType,
   userSessionDataSelect,
   UserSessionDataType,
 } from 'src/libs/prisma-types';
-import { UserSession } from '@prisma/client';
-import { addDays, isPast } from 'date-fns';
+import { Prisma, UserSession } from '@prisma/client';
+import { addDays, addMinutes, isPast } from 'date-fns';
 import { Response } from 'express';
 import { AUTH_CONSTANTS } from 'src/resources/auth/auth.constants';
 import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { EmailService } from 'src/resources/email/email.service';
+import {
+  ForgotPasswordDto,
+  ResetPasswordDto,
+} from 'src/resources/auth/dto/PasswordReset.dto';
+import {
+  TwoFactorCodeDto,
+  TwoFactorPasswordDto,
+  TwoFactorVerifyDto,
+} from 'src/resources/auth/dto/TwoFactor.dto';
+import { authenticator } from 'otplib';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { RedisStore } from 'cache-manager-redis-yet';
+import { setTimeout } from 'timers/promises';
 // import { Response } from 'express';
 
+interface ILoginAttemptKeysType {
+  account: string;
+  ip: string;
+}
+
+// Compared against when the user does not exist
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync(uuidv4(), 10);
+
+const totp = authenticator.clone({
+  window: AUTH_CONSTANTS.TWO_FACTOR_WINDOW,
+});
+
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
+    @Inject(CACHE_MANAGER) private cacheManager: Cache,
     private readonly prisma: PrismaService,
     private readonly jwt: JwtService,
     private readonly jwtCustom: JwtServiceCustom,
+    private readonly emailService: EmailService,
+    private readonly config: ConfigService,
   ) {}
   async authLogin({
     credentials,
@@ -51,9 +100,11 @@ export class AuthService {
     response: Response;
   }): Promise<
     IResponseType<
-      UserDataType & {
-        accessToken: string;
-      }
+      | (UserDataType & {
+          accessToken: string;
+          refreshToken: string;
+        })
+      | ITwoFactorChallengeResponseType
     >
   > {
     try {
@@ -64,43 +115,73 @@ export class AuthService {
         include: { userType: true },
       });
 
-      if (!checkUser) throw new NotFoundException('User not found');
-      if (checkUser.isBanned) throw new UnauthorizedException('User is banned');
+      // Counted by id when the user exists, so the username and the email share one counter
+      const attemptKeys = this.getLoginAttemptKeys({
+        account: checkUser?.id || username.trim().toLowerCase(),
+        ipAddress,
+      });
+      await this.assertLoginAllowed(attemptKeys);
 
+      // Unknown users are compared too, so the response time does not reveal them
       const isMatchPassword = await bcrypt.compare(
         password,
-        checkUser.password,
+        checkUser?.password || DUMMY_PASSWORD_HASH,
       );
-      if (!isMatchPassword)
-        throw new UnauthorizedException('Incorrect password');
+      if (!checkUser || !isMatchPassword) {
+        await this.recordFailedLogin(attemptKeys);
+        throw new UnauthorizedException('Invalid username or password');
+      }
+
+      // Ban details are only revealed once the password is verified
+      await liftExpiredBan(this.prisma, checkUser);
+      if (checkUser.isBanned) {
+        throw new UnauthorizedException({
+          statusCode: 401,
+          message: 'User is banned',
+          reason: checkUser.banReason,
+          bannedUntil: checkUser.bannedUntil,
+        });
+      }
+
+      // The session is only created once the second factor is verified
+      if (checkUser.twoFactorEnabled) {
+        return {
+          message: 'Two-factor authentication required',
+          data: {
+            twoFactorRequired: true,
+            challengeToken: await this.jwt.signAsync(
+              {
+                userId: checkUser.id,
+                username: checkUser.username,
+                purpose: '2fa',
+              } satisfies IDecodedTwoFactorChallengeType,
+              { expiresIn: AUTH_CONSTANTS.TWO_FACTOR_CHALLENGE_EXPIRES },
+            ),
+          },
+          statusCode: 200,
+          date: new Date(),
+        };
+      }
+      // With 2FA the counter is only cleared once the second factor succeeds
+      await this.clearLoginAttempts(attemptKeys);
 
       /* eslint-disable @typescript-eslint/no-unused-vars*/
       const {
-        refreshToken: _rfToken,
         type,
         password: _pw,
+        twoFactorSecret: _secret,
+        twoFactorLastUsedStep: _step,
         ...resultUser
       } = checkUser;
       /* eslint-enable @typescript-eslint/no-unused-vars*/
 
-      // Generate JWT
-      const { accessToken, refreshToken } = await this.generateAuthTokens({
-        user: checkUser,
-      });
+      // Must run before the session of this login is saved
+      await this.alertNewLoginDevice({ user: checkUser, ipAddress, userAgent });
 
-      // Update user record with refresh token after registration
-      // This allows the user to maintain their session and perform authenticated requests
-      // The refresh token is used to generate new access tokens when they expire
-      await this.prisma.user.update({
-        where: { id: checkUser.id },
-        data: {
-          refreshToken,
-        },
-      });
-
-      // Set auth session
-      await this.setAuthSession({
-        accessToken,
+      // Set auth session, which generates the tokens
+      const {
+        data: { accessToken, refreshToken },
+      } = await this.setAuthSession({
         ipAddress,
         userAgent,
         userData: checkUser,
@@ -108,7 +189,7 @@ export class AuthService {
 
       return {
         message: 'Logged in successfully',
-        data: { ...resultUser, accessToken },
+        data: { ...resultUser, accessToken, refreshToken },
         statusCode: 200,
         date: new Date(),
       };
@@ -125,6 +206,7 @@ export class AuthService {
     IResponseType<
       UserDataType & {
         accessToken: string;
+        refreshToken: string;
       }
     >
   > {
@@ -168,24 +250,10 @@ export class AuthService {
       });
       /*   eslint-enable @typescript-eslint/no-unused-vars*/
 
-      // Generate JWT
-      const { accessToken, refreshToken } = await this.generateAuthTokens({
-        user: createdUser,
-      });
-
-      // Update user record with refresh token after registration
-      // This allows the user to maintain their session and perform authenticated requests
-      // The refresh token is used to generate new access tokens when they expire
-      await this.prisma.user.update({
-        where: { id: createdUser.id },
-        data: {
-          refreshToken,
-        },
-      });
-
-      // Set the session
-      await this.setAuthSession({
-        accessToken,
+      // Set the session, which generates the tokens
+      const {
+        data: { accessToken, refreshToken },
+      } = await this.setAuthSession({
         userData: createdUser,
         userAgent,
         ipAddress,
@@ -193,7 +261,7 @@ export class AuthService {
 
       return {
         message: 'User registered successfully',
-        data: { ...createdUser, accessToken },
+        data: { ...createdUser, accessToken, refreshToken },
         statusCode: 201,
         date: new Date(),
       };
@@ -206,14 +274,9 @@ export class AuthService {
     decodedAccessToken: IDecodedAccecssTokenType,
   ): Promise<IResponseType> {
     try {
-      const { userId, originalToken } = decodedAccessToken;
+      const { originalToken } = decodedAccessToken;
 
-      await this.prisma.user.update({
-        where: { id: userId },
-        data: { refreshToken: null },
-      });
-
-      // Delete session
+      // Delete session, which also revokes its refresh token
       await this.removeAuthSession({
         accessToken: originalToken,
       });
@@ -267,83 +330,398 @@ export class AuthService {
   }
 
   /**
-   * Renew user's login session
-   * @param oldAccessToken - Old token that needs to be renewed
-   * @returns New session information of the user
+   * Rotate the refresh token of a session and issue a new access token
+   * A refresh token that was already rotated has leaked, so its whole session family is revoked
+   * @param refreshToken - Latest refresh token of the session
+   * @returns New session information of the user, with the new tokens
    */
-  async renewSession(oldAccessToken: string): Promise<
+  async refreshSession(refreshToken: string): Promise<
     IResponseType<
       Omit<UserSessionDataType, 'token'> & {
         user: IUserDataWithAccessToken;
+        refreshToken: string;
       }
     >
   > {
     try {
-      if (!oldAccessToken)
-        throw new BadRequestException('Access token is required');
+      if (!refreshToken)
+        throw new BadRequestException('Refresh token is required');
 
-      // Get current timestamp
-      const currentDate = new Date();
+      let decodedRefreshToken: IDecodedRefreshTokenType;
+      try {
+        decodedRefreshToken = await this.jwt.verifyAsync(refreshToken);
+      } catch (error) {
+        throw new UnauthorizedException('Invalid refresh token');
+      }
 
-      // Check if old session exists
-      const checkSession = await this.prisma.userSession.findUnique({
-        where: { token: oldAccessToken },
-      });
+      // Access tokens are signed with the same secret but carry no session
+      const { userId, username, sessionId, familyId } = decodedRefreshToken;
+      if (!sessionId || !familyId)
+        throw new UnauthorizedException('Invalid refresh token');
 
-      // Decode old token to get user information
-      const { userId, username } = await this.jwt.verifyAsync<
-        Omit<IDecodedAccecssTokenType, 'originalToken'>
-      >(oldAccessToken, {
-        ignoreExpiration: true,
+      const checkSession = await this.prisma.userSession.findUnique({
+        where: { id: sessionId },
       });
 
-      // Validate session
-      if (!checkSession || checkSession.userId !== userId)
-        throw new ForbiddenException('Invalid session');
+      // The session was logged out, or logged in again which started a new family
+      if (
+        !checkSession ||
+        checkSession.userId !== userId ||
+        checkSession.familyId !== familyId
+      )
+        throw new UnauthorizedException('Invalid refresh token');
       if (isPast(new Date(checkSession.expiresAt)))
         throw new ForbiddenException('Session expired');
 
-      // Generate new key for token
-      const key = v4();
+      const currentDate = new Date();
+      const { accessToken, refreshToken: newRefreshToken } =
+        await this.generateAuthTokens({
+          user: { id: userId, username },
+          sessionId,
+          familyId,
+        });
 
-      // Generate new access token and refresh token
-      const accessToken = await this.jwtCustom.generateAccessToken({
-        userId,
-        username,
-        key,
+      // Conditional on the previous hash, so concurrent uses of a token cannot both rotate it
+      const { count } = await this.prisma.userSession.updateMany({
+        where: {
+          id: sessionId,
+          familyId,
+          refreshTokenHash: hashToken(refreshToken),
+        },
+        data: {
+          token: accessToken,
+          refreshTokenHash: hashToken(newRefreshToken),
+          lastActivity: currentDate,
+          expiresAt: addDays(currentDate, AUTH_CONSTANTS.SESSION_EXPIRES),
+        },
       });
-      const refreshToken = await this.jwtCustom.generateAccessToken(
-        { userId, username, key },
-        { isRefreshToken: true },
-      );
 
-      // Update user with new refresh token
-      await this.prisma.user.update({
-        where: { id: userId },
-        data: { refreshToken },
-      });
+      if (!count) {
+        await this.prisma.userSession.deleteMany({
+          where: { id: sessionId, familyId },
+        });
+        this.logger.warn(
+          `Refresh token reuse detected, revoked session ${sessionId} of user ${userId}`,
+        );
+        throw new UnauthorizedException(
+          'Refresh token has already been used, the session has been revoked',
+        );
+      }
 
-      // Update session with new token
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
       const { token, user, ...newSession } =
-        await this.prisma.userSession.update({
-          where: { token: oldAccessToken },
-          data: {
-            token: accessToken,
-            expiresAt: addDays(currentDate, AUTH_CONSTANTS.SESSION_EXPIRES),
-          },
+        await this.prisma.userSession.findUnique({
+          where: { id: sessionId },
           select: userSessionDataSelect,
         });
 
       // Add access token to user information
       user['accessToken'] = accessToken;
 
-      // Return result
       return {
-        message: 'Refresh token successfully generated',
+        message: 'Session refreshed successfully',
         data: {
           ...newSession,
           user: user as IUserDataWithAccessToken,
+          refreshToken: newRefreshToken,
+        },
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * List the sessions of the user, most recently active first
+   * @param decodedAccessToken - Access token of the current session, which is flagged
+   */
+  async getSessions(decodedAccessToken: IDecodedAccecssTokenType): Promise<
+    IResponseType<
+      (AuthSessionDataType & {
+        browser: string | null;
+        os: string | null;
+        isCurrent: boolean;
+      })[]
+    >
+  > {
+    try {
+      const { userId, originalToken } = decodedAccessToken;
+
+      const [sessions, currentSession] = await this.prisma.$transaction([
+        this.prisma.userSession.findMany({
+          where: { userId },
+          orderBy: { lastActivity: 'desc' },
+          select: authSessionDataSelect,
+        }),
+        this.prisma.userSession.findUnique({
+          where: { token: originalToken },
+          select: { id: true },
+        }),
+      ]);
+
+      return {
+        message: 'Get sessions successfully',
+        data: sessions.map((session) => ({
+          ...session,
+          ...parseUserAgent(session.userAgent),
+          isCurrent: session.id === currentSession?.id,
+        })),
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Revoke a session of the user, with its refresh token
+   */
+  async revokeSession({
+    userId,
+    sessionId,
+  }: {
+    userId: string;
+    sessionId: string;
+  }): Promise<IResponseType> {
+    try {
+      const { count } = await this.prisma.userSession.deleteMany({
+        where: { id: sessionId, userId },
+      });
+      if (!count) throw new NotFoundException('Session not found');
+
+      return {
+        message: 'Revoked session successfully',
+        data: null,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Revoke every session of the user
+   * @param others - Keep the current session
+   */
+  async revokeSessions({
+    decodedAccessToken,
+    others,
+  }: {
+    decodedAccessToken: IDecodedAccecssTokenType;
+    others: boolean;
+  }): Promise<IResponseType<{ count: number }>> {
+    try {
+      const { userId, originalToken } = decodedAccessToken;
+
+      const { count } = await this.prisma.userSession.deleteMany({
+        where: {
+          userId,
+          ...(others && { token: { not: originalToken } }),
+        },
+      });
+
+      return {
+        message: 'Revoked sessions successfully',
+        data: { count },
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Email a single use password reset token to the user
+   * The response is the same whether the email exists or not, so it cannot be used to find accounts
+   */
+  async forgotPassword({ email }: ForgotPasswordDto): Promise<IResponseType> {
+    try {
+      // Not awaited, so the response time does not reveal whether an email was sent
+      this.sendPasswordResetEmail(email);
+
+      return {
+        message:
+          'If an account exists for this email, a password reset email has been sent',
+        data: null,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Set a new password with a token from forgotPassword
+   * Every session of the user is revoked, including the refresh tokens
+   */
+  async resetPassword({
+    token,
+    newPassword,
+  }: ResetPasswordDto): Promise<IResponseType> {
+    try {
+      const currentDate = new Date();
+      const resetToken = await this.prisma.passwordResetToken.findUnique({
+        where: { tokenHash: hashToken(token) },
+      });
+
+      if (
+        !resetToken ||
+        resetToken.usedAt ||
+        isPast(new Date(resetToken.expiresAt))
+      )
+        throw new BadRequestException('Invalid or expired reset token');
+
+      const password = await bcrypt.hash(newPassword, 10);
+
+      await this.prisma.$transaction(async (tx) => {
+        // Conditional, so a token used concurrently only resets once
+        const { count } = await tx.passwordResetToken.updateMany({
+          where: { id: resetToken.id, usedAt: null },
+          data: { usedAt: currentDate },
+        });
+        if (!count)
+          throw new BadRequestException('Invalid or expired reset token');
+
+        await tx.user.update({
+          where: { id: resetToken.userId },
+          data: { password },
+        });
+        await tx.userSession.deleteMany({
+          where: { userId: resetToken.userId },
+        });
+        // Other tokens requested before this one stop working too
+        await tx.passwordResetToken.deleteMany({
+          where: { userId: resetToken.userId, usedAt: null },
+        });
+      });
+
+      return {
+        message: 'Password reset successfully',
+        data: null,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Complete a login that requires 2FA
+   * @param challengeToken - Token returned by authLogin
+   * @param code - Code of the authenticator app, or an unused recovery code
+   */
+  async verifyTwoFactorLogin({
+    data: { challengeToken, code },
+    userAgent,
+    ipAddress,
+  }: {
+    data: TwoFactorVerifyDto;
+    userAgent: string;
+    ipAddress: string;
+  }): Promise<
+    IResponseType<
+      UserDataType & {
+        accessToken: string;
+        refreshToken: string;
+      }
+    >
+  > {
+    try {
+      let challenge: IDecodedTwoFactorChallengeType;
+      try {
+        challenge = await this.jwt.verifyAsync(challengeToken);
+      } catch (error) {
+        throw new UnauthorizedException('Invalid or expired challenge token');
+      }
+      // Other tokens are signed with the same secret
+      if (challenge.purpose !== '2fa')
+        throw new UnauthorizedException('Invalid or expired challenge token');
+
+      const user = await this.prisma.user.findUnique({
+        where: { id: challenge.userId },
+        select: { ...userDataSelect, twoFactorSecret: true },
+      });
+      if (!user || !user.twoFactorEnabled)
+        throw new UnauthorizedException('Invalid or expired challenge token');
+      if (user.isBanned) throw new UnauthorizedException('User is banned');
+
+      const attemptKeys = this.getLoginAttemptKeys({
+        account: user.id,
+        ipAddress,
+      });
+      await this.assertLoginAllowed(attemptKeys);
+
+      const { twoFactorSecret, ...resultUser } = user;
+      const isValidCode =
+        (await this.useTotpCode({ userId: user.id, twoFactorSecret, code })) ||
+        (await this.useRecoveryCode(user.id, code));
+      if (!isValidCode) {
+        await this.recordFailedLogin(attemptKeys);
+        throw new UnauthorizedException('Invalid two-factor code');
+      }
+      await this.clearLoginAttempts(attemptKeys);
+
+      // Must run before the session of this login is saved
+      await this.alertNewLoginDevice({ user, ipAddress, userAgent });
+
+      const {
+        data: { accessToken, refreshToken },
+      } = await this.setAuthSession({
+        ipAddress,
+        userAgent,
+        userData: resultUser,
+      });
+
+      return {
+        message: 'Logged in successfully',
+        data: { ...resultUser, accessToken, refreshToken },
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Start the 2FA enrollment with a new secret
+   * 2FA is only enabled once a code of the secret is verified by enableTwoFactor
+   */
+  async setupTwoFactor(
+    userId: string,
+  ): Promise<IResponseType<{ secret: string; otpauthUri: string }>> {
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+      });
+      if (!user) throw new NotFoundException('User not found');
+      if (user.twoFactorEnabled)
+        throw new ConflictException(
+          'Two-factor authentication already enabled',
+        );
+
+      const secret = authenticator.generateSecret();
+      await this.prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorSecret: secret },
+      });
+
+      return {
+        message: 'Scan the URI with an authenticator app, then verify a code',
+        data: {
+          secret,
+          otpauthUri: authenticator.keyuri(
+            user.email,
+            AUTH_CONSTANTS.TWO_FACTOR_ISSUER,
+            secret,
+          ),
         },
         statusCode: 200,
         date: new Date(),
@@ -353,20 +731,427 @@ export class AuthService {
     }
   }
 
+  /**
+   * Verify a code of the secret from setupTwoFactor and enable 2FA
+   * @returns Recovery codes, only shown once
+   */
+  async enableTwoFactor({
+    userId,
+    data: { code },
+  }: {
+    userId: string;
+    data: TwoFactorCodeDto;
+  }): Promise<IResponseType<{ recoveryCodes: string[] }>> {
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+      });
+      if (!user) throw new NotFoundException('User not found');
+      if (user.twoFactorEnabled)
+        throw new ConflictException(
+          'Two-factor authentication already enabled',
+        );
+      if (!user.twoFactorSecret)
+        throw new BadRequestException('Two-factor setup has not been started');
+      if (
+        !(await this.useTotpCode({
+          userId,
+          twoFactorSecret: user.twoFactorSecret,
+          code,
+        }))
+      )
+        throw new BadRequestException('Invalid two-factor code');
+
+      const recoveryCodes = await this.prisma.$transaction(async (tx) => {
+        await tx.user.update({
+          where: { id: userId },
+          data: { twoFactorEnabled: true },
+        });
+        return this.replaceRecoveryCodes(userId, tx);
+      });
+
+      return {
+        message: 'Two-factor authentication enabled successfully',
+        data: { recoveryCodes },
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  async disableTwoFactor({
+    userId,
+    data: { password },
+  }: {
+    userId: string;
+    data: TwoFactorPasswordDto;
+  }): Promise<IResponseType> {
+    try {
+      await this.validateTwoFactorPassword(userId, password);
+
+      await this.prisma.$transaction([
+        this.prisma.user.update({
+          where: { id: userId },
+          data: { twoFactorEnabled: false, twoFactorSecret: null },
+        }),
+        this.prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      ]);
+
+      return {
+        message: 'Two-factor authentication disabled successfully',
+        data: null,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Replace every recovery code, used or not
+   * @returns New recovery codes, only shown once
+   */
+  async regenerateRecoveryCodes({
+    userId,
+    data: { password },
+  }: {
+    userId: string;
+    data: TwoFactorPasswordDto;
+  }): Promise<IResponseType<{ recoveryCodes: string[] }>> {
+    try {
+      await this.validateTwoFactorPassword(userId, password);
+
+      const recoveryCodes = await this.prisma.$transaction((tx) =>
+        this.replaceRecoveryCodes(userId, tx),
+      );
+
+      return {
+        message: 'Recovery codes regenerated successfully',
+        data: { recoveryCodes },
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
   //   ----------------- Utils
+
+  // Identities of the counters and locks, see getLoginAttemptKey and getLoginLockKey
+  private getLoginAttemptKeys({
+    account,
+    ipAddress,
+  }: {
+    account: string;
+    ipAddress: string;
+  }): ILoginAttemptKeysType {
+    return {
+      account: `account:${account}`,
+      ip: `ip:${ipAddress}`,
+    };
+  }
+
+  private getLoginAttemptKey(identity: string) {
+    return `${AUTH_CONSTANTS.LOGIN_ATTEMPTS_PREFIX}${identity}`;
+  }
+
+  private getLoginLockKey(identity: string) {
+    return `${AUTH_CONSTANTS.LOGIN_LOCK_PREFIX}${identity}`;
+  }
+
+  // Counters and locks use atomic commands, the cache manager can only read then write
+  private get redis() {
+    return (this.cacheManager.store as RedisStore).client;
+  }
+
+  // Same response whether the account or the IP is locked
+  private async assertLoginAllowed(keys: ILoginAttemptKeysType) {
+    const lockTtls = await Promise.all(
+      [keys.account, keys.ip].map((identity) =>
+        this.redis.pTTL(this.getLoginLockKey(identity)),
+      ),
+    );
+    const lockTtl = Math.max(...lockTtls);
+
+    if (lockTtl > 0) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: 'Too many failed login attempts, try again later',
+          retryAfter: Math.ceil(lockTtl / 1000),
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  private async clearLoginAttempts(keys: ILoginAttemptKeysType) {
+    await this.redis.del(this.getLoginAttemptKey(keys.account));
+  }
+
+  /**
+   * Count a failed login, lock the account or the IP past their limit
+   * Then wait longer on each failure, which slows down guessing before the lock
+   */
+  private async recordFailedLogin(keys: ILoginAttemptKeysType) {
+    const [accountAttempts] = await Promise.all([
+      this.incrementLoginAttempts(
+        keys.account,
+        AUTH_CONSTANTS.LOGIN_ACCOUNT_LOCK_ATTEMPTS,
+      ),
+      this.incrementLoginAttempts(
+        keys.ip,
+        AUTH_CONSTANTS.LOGIN_IP_LOCK_ATTEMPTS,
+      ),
+    ]);
+
+    const delayedAttempts =
+      accountAttempts - AUTH_CONSTANTS.LOGIN_FREE_ATTEMPTS;
+    if (delayedAttempts > 0) {
+      await setTimeout(
+        Math.min(
+          AUTH_CONSTANTS.LOGIN_DELAY_BASE * 2 ** (delayedAttempts - 1),
+          AUTH_CONSTANTS.LOGIN_DELAY_MAX,
+        ),
+      );
+    }
+  }
+
+  /**
+   * @returns Failed attempts of the identity, including this one
+   */
+  private async incrementLoginAttempts(identity: string, lockAttempts: number) {
+    const attemptKey = this.getLoginAttemptKey(identity);
+    const [count] = await this.redis
+      .multi()
+      .incr(attemptKey)
+      .pExpire(attemptKey, AUTH_CONSTANTS.LOGIN_ATTEMPTS_TTL)
+      .exec();
+
+    if (Number(count) >= lockAttempts) {
+      // NX, so a failure never extends or replaces a running lock
+      await this.redis.set(this.getLoginLockKey(identity), 1, {
+        NX: true,
+        PX: AUTH_CONSTANTS.LOGIN_LOCK_DURATION,
+      });
+      // The counter starts over once the lock ends
+      await this.redis.del(attemptKey);
+    }
+
+    return Number(count);
+  }
+
+  /**
+   * Email the user when a login comes from an IP and user agent pair none of their sessions used
+   * No alert without earlier sessions, there is nothing to compare the login to
+   */
+  private async alertNewLoginDevice({
+    user,
+    ipAddress,
+    userAgent,
+  }: {
+    user: Pick<UserDataType, 'id' | 'email' | 'fullName'>;
+    ipAddress: string;
+    userAgent: string;
+  }) {
+    try {
+      const sessions = await this.prisma.userSession.findMany({
+        where: { userId: user.id },
+        select: { ipAddress: true, userAgent: true },
+      });
+      const isKnownDevice = sessions.some(
+        (session) =>
+          session.ipAddress === ipAddress && session.userAgent === userAgent,
+      );
+      if (!sessions.length || isKnownDevice) return;
+
+      const { browser, os } = parseUserAgent(userAgent);
+
+      // Not awaited, the login does not wait for the email
+      this.emailService
+        .sendNewLoginAlertEmail({
+          email: user.email,
+          context: {
+            name: user.fullName,
+            browser: browser || 'Unknown browser',
+            os: os || 'Unknown OS',
+            ip_address: ipAddress || 'Unknown IP',
+            date: new Date().toUTCString(),
+          },
+        })
+        .catch((error) =>
+          this.logger.error(
+            `Failed to send new login alert email: ${error.message}`,
+          ),
+        );
+    } catch (error) {
+      this.logger.error(`Failed to check the login device: ${error.message}`);
+    }
+  }
+
+  /**
+   * Check a code of the authenticator app and record its time step
+   * Conditional on the last used step, so a code is only accepted once even within its window
+   */
+  private async useTotpCode({
+    userId,
+    twoFactorSecret,
+    code,
+  }: {
+    userId: string;
+    twoFactorSecret: string;
+    code: string;
+  }) {
+    const now = Date.now();
+
+    let delta: number | null;
+    try {
+      delta = totp
+        .clone({ epoch: now })
+        .checkDelta(code.replace(/\s/g, ''), twoFactorSecret);
+    } catch {
+      // Malformed codes and secrets are invalid codes
+      return false;
+    }
+    if (delta === null) return false;
+
+    const step = Math.floor(now / 1000 / totp.allOptions().step) + delta;
+    const { count } = await this.prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [
+          { twoFactorLastUsedStep: null },
+          { twoFactorLastUsedStep: { lt: step } },
+        ],
+      },
+      data: { twoFactorLastUsedStep: step },
+    });
+
+    return count > 0;
+  }
+
+  // Conditional, so a recovery code can only be used once
+  private async useRecoveryCode(userId: string, code: string) {
+    const { count } = await this.prisma.twoFactorRecoveryCode.updateMany({
+      where: {
+        userId,
+        codeHash: hashToken(code.trim().toLowerCase()),
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    });
+
+    return count > 0;
+  }
+
+  private async replaceRecoveryCodes(
+    userId: string,
+    tx: Prisma.TransactionClient,
+  ) {
+    const recoveryCodes = Array.from(
+      { length: AUTH_CONSTANTS.TWO_FACTOR_RECOVERY_CODES },
+      generateRecoveryCode,
+    );
+
+    await tx.twoFactorRecoveryCode.deleteMany({ where: { userId } });
+    await tx.twoFactorRecoveryCode.createMany({
+      data: recoveryCodes.map((code) => ({
+        userId,
+        codeHash: hashToken(code),
+      })),
+    });
+
+    return recoveryCodes;
+  }
+
+  // Disabling 2FA and reading new recovery codes require the current password
+  private async validateTwoFactorPassword(userId: string, password: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+    if (!user) throw new NotFoundException('User not found');
+    if (!(await bcrypt.compare(password, user.password)))
+      throw new UnauthorizedException('Incorrect password');
+    if (!user.twoFactorEnabled)
+      throw new BadRequestException('Two-factor authentication is not enabled');
+  }
+
+  // Never throws, called in the background by forgotPassword
+  private async sendPasswordResetEmail(email: string) {
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { email },
+        select: { id: true, fullName: true, email: true },
+      });
+      if (!user) return;
+
+      const currentDate = new Date();
+      const token = generateSecureToken();
+
+      // A new request replaces the tokens that were not used yet
+      await this.prisma.$transaction([
+        this.prisma.passwordResetToken.deleteMany({
+          where: { userId: user.id, usedAt: null },
+        }),
+        this.prisma.passwordResetToken.create({
+          data: {
+            userId: user.id,
+            tokenHash: hashToken(token),
+            createdAt: currentDate,
+            expiresAt: addMinutes(
+              currentDate,
+              AUTH_CONSTANTS.PASSWORD_RESET_EXPIRES,
+            ),
+          },
+        }),
+      ]);
+
+      const resetUrl = this.config.get<string>('PASSWORD_RESET_URL');
+
+      await this.emailService.sendPasswordResetEmail({
+        email: user.email,
+        context: {
+          name: user.fullName,
+          reset_token: token,
+          reset_link: resetUrl
+            ? `${resetUrl}?token=${encodeURIComponent(token)}`
+            : null,
+          expires_minutes: AUTH_CONSTANTS.PASSWORD_RESET_EXPIRES,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send password reset email: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Create or replace the session of the device and issue its tokens
+   * Each call starts a new refresh token family, the tokens issued before on the device stop working
+   */
   async setAuthSession({
-    accessToken,
     userData,
     ipAddress,
     userAgent,
     payload,
   }: {
-    accessToken: string;
     userData: UserDataType;
     userAgent: string;
     ipAddress: string;
     payload?: JSON;
-  }): Promise<IResponseType<UserSession>> {
+  }): Promise<
+    IResponseType<
+      UserSession & {
+        accessToken: string;
+        refreshToken: string;
+      }
+    >
+  > {
     try {
       const checkUserSession = await this.prisma.userSession.findFirst({
         where: {
@@ -381,12 +1166,23 @@ export class AuthService {
       const currentDate = new Date();
       const expiresAt = addDays(currentDate, AUTH_CONSTANTS.SESSION_EXPIRES); // 24 hours
 
+      const sessionId = checkUserSession?.id || uuidv4();
+      const familyId = uuidv4();
+      const { accessToken, refreshToken } = await this.generateAuthTokens({
+        user: userData,
+        sessionId,
+        familyId,
+      });
+
       const userSession = await this.prisma.userSession.upsert({
         where: {
-          id: checkUserSession?.id || '',
+          id: sessionId,
         },
         create: {
+          id: sessionId,
           token: accessToken,
+          refreshTokenHash: hashToken(refreshToken),
+          familyId,
           ipAddress,
           expiresAt,
           lastActivity: currentDate,
@@ -396,6 +1192,8 @@ export class AuthService {
         },
         update: {
           token: accessToken,
+          refreshTokenHash: hashToken(refreshToken),
+          familyId,
           ipAddress,
           lastActivity: currentDate,
           expiresAt,
@@ -412,6 +1210,8 @@ export class AuthService {
         message: 'Set session successfully',
         data: {
           ...userSession,
+          accessToken,
+          refreshToken,
         },
         statusCode: 201,
         date: new Date(),
@@ -442,7 +1242,19 @@ export class AuthService {
     }
   }
 
-  async generateAuthTokens({ user }: { user: UserDataType }): Promise<{
+  /**
+   * @param sessionId - Session the refresh token belongs to
+   * @param familyId - Refresh token family of the session
+   */
+  async generateAuthTokens({
+    user,
+    sessionId,
+    familyId,
+  }: {
+    user: Pick<UserDataType, 'id' | 'username'>;
+    sessionId: string;
+    familyId: string;
+  }): Promise<{
     accessToken: string;
     refreshToken: string;
   }> {
@@ -458,6 +1270,8 @@ export class AuthService {
           userId: user.id,
           username: user.username,
           key,
+          sessionId,
+          familyId,
         },
         { isRefreshToken: true },
       );
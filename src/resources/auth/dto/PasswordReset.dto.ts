@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+
+export class ForgotPasswordDto {
+  @ApiProperty({ default: '' })
+  @IsEmail()
+  email: string;
+}
+
+export class ResetPasswordDto {
+  @ApiProperty({ default: '', description: 'Token received by email' })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+  @ApiProperty({ default: '' })
+  @IsString()
+  @IsNotEmpty()
+  newPassword: string;
+}
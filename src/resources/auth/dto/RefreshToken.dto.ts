@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class RefreshTokenDto {
+  @ApiProperty({ default: '' })
+  @IsString()
+  @IsNotEmpty()
+  refreshToken: string;
+}
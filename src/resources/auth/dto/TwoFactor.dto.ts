@@ -0,0 +1,30 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class TwoFactorCodeDto {
+  @ApiProperty({ default: '', description: 'Code of the authenticator app' })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
+
+export class TwoFactorVerifyDto {
+  @ApiProperty({ default: '', description: 'Challenge token of the login' })
+  @IsString()
+  @IsNotEmpty()
+  challengeToken: string;
+  @ApiProperty({
+    default: '',
+    description: 'Code of the authenticator app or a recovery code',
+  })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
+
+export class TwoFactorPasswordDto {
+  @ApiProperty({ default: '', description: 'Current password' })
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+}
@@ -0,0 +1,97 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ConversationService } from './conversation.service';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { RoleGuard } from 'src/guards/role.guard';
+import { DecodedAccessToken } from 'src/decorators/decodedAccessToken.decorator';
+import { IDecodedAccecssTokenType } from 'src/interfaces/interfaces.global';
+import { decodeCursor, normalizePaginationParams } from 'src/utils/utils';
+import {
+  CreateConversationDto,
+  SendMessageDto,
+} from 'src/resources/conversation/dto/conversation.dto';
+import {
+  createConversationDecorator,
+  getConversationsDecorator,
+  getMessagesDecorator,
+  sendMessageDecorator,
+} from 'src/resources/conversation/conversation.decorators';
+
+@ApiTags('Direct Message')
+@ApiBearerAuth()
+@UseGuards(AuthGuard('jwt'), RoleGuard)
+@Controller('conversation')
+export class ConversationController {
+  constructor(private readonly conversationService: ConversationService) {}
+
+  @Post('/')
+  @createConversationDecorator()
+  createConversation(
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Body() data: CreateConversationDto,
+  ) {
+    return this.conversationService.createConversation({
+      userId: decodedAccessToken.userId,
+      targetUserId: data.userId,
+    });
+  }
+
+  @Get('/')
+  @getConversationsDecorator()
+  getConversations(
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Query('page') _page: string,
+    @Query('limit') _limit: string,
+  ) {
+    const { limit, page } = normalizePaginationParams({
+      limit: +_limit,
+      page: +_page,
+    });
+    return this.conversationService.getConversations({
+      userId: decodedAccessToken.userId,
+      limit,
+      page,
+    });
+  }
+
+  @Post('/:conversationId/messages')
+  @sendMessageDecorator()
+  sendMessage(
+    @Param('conversationId') conversationId: string,
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Body() data: SendMessageDto,
+  ) {
+    return this.conversationService.sendMessage({
+      conversationId,
+      senderId: decodedAccessToken.userId,
+      data,
+    });
+  }
+
+  @Get('/:conversationId/messages')
+  @getMessagesDecorator()
+  getMessages(
+    @Param('conversationId') conversationId: string,
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Query('limit') _limit: string,
+    @Query('cursor') _cursor: string,
+  ) {
+    const { limit } = normalizePaginationParams({
+      limit: +_limit,
+    });
+    return this.conversationService.getMessages({
+      conversationId,
+      userId: decodedAccessToken.userId,
+      limit,
+      cursor: _cursor ? decodeCursor(_cursor) : null,
+    });
+  }
+}
@@ -0,0 +1,77 @@
+import { applyDecorators, UseGuards } from '@nestjs/common';
+import { ApiHeader, ApiOperation, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { ApiQueryLimitAndPage } from 'src/decorators/pagination.decorators';
+import { JwtTokenVerifyGuard } from 'src/guards/jwt-token-verify.guard';
+
+export const createConversationDecorator = () =>
+  applyDecorators(
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Start a conversation',
+      description:
+        'Start a 1:1 conversation with another user, or return the existing one',
+    }),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+    }),
+  );
+
+export const getConversationsDecorator = () =>
+  applyDecorators(
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Get my conversations',
+      description:
+        'Retrieve a paginated list of conversations of the authenticated user, ordered by last activity',
+    }),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+    }),
+    ApiQueryLimitAndPage(),
+  );
+
+export const sendMessageDecorator = () =>
+  applyDecorators(
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Send a message',
+      description: 'Send a message to a conversation you are part of',
+    }),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+    }),
+    ApiParam({
+      name: 'conversationId',
+    }),
+  );
+
+export const getMessagesDecorator = () =>
+  applyDecorators(
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Get conversation messages',
+      description:
+        'Retrieve the message history of a conversation, newest first, using a cursor',
+    }),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+    }),
+    ApiParam({
+      name: 'conversationId',
+    }),
+    ApiQuery({
+      name: 'limit',
+      required: false,
+      description: 'Limit result on page (Default : 10)',
+    }),
+    ApiQuery({
+      name: 'cursor',
+      required: false,
+      description:
+        'Opaque cursor from the previous response (nextCursor), omit it to get the first page',
+    }),
+  );
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { ConversationService } from './conversation.service';
+import { ConversationController } from './conversation.controller';
+
+@Module({
+  controllers: [ConversationController],
+  providers: [ConversationService],
+})
+export class ConversationModule {}
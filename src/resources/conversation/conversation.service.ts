@@ -0,0 +1,294 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { SocketEvent } from 'src/events/events.constants';
+import { EventsGateway } from 'src/events/events.gateway';
+import { handleDefaultError } from 'src/global/functions.global';
+import {
+  ICursorPaginationResponseType,
+  ICursorType,
+  IPaginationResponseType,
+  IResponseType,
+} from 'src/interfaces/interfaces.global';
+import {
+  conversationDataSelect,
+  ConversationDataType,
+  ConversationWithParticipantType,
+  messageDataSelect,
+  MessageDataType,
+} from 'src/libs/prisma-types';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SendMessageDto } from 'src/resources/conversation/dto/conversation.dto';
+import {
+  getCursorPaginationQuery,
+  getCursorPaginationResult,
+} from 'src/utils/utils';
+
+@Injectable()
+export class ConversationService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventsGateway: EventsGateway,
+  ) {}
+
+  /**
+   * Start a 1:1 conversation, or return the existing one between the two users
+   * @param userId - Current user
+   * @param targetUserId - User to start the conversation with
+   * @returns The conversation seen from the current user
+   */
+  async createConversation({
+    userId,
+    targetUserId,
+  }: {
+    userId: string;
+    targetUserId: string;
+  }): Promise<IResponseType<ConversationWithParticipantType>> {
+    try {
+      if (!userId || !targetUserId) {
+        throw new BadRequestException('Missing required user IDs');
+      }
+
+      if (userId === targetUserId) {
+        throw new ForbiddenException(
+          'Cannot start a conversation with yourself',
+        );
+      }
+
+      const targetUser = await this.prisma.user.findUnique({
+        where: { id: targetUserId },
+        select: { id: true },
+      });
+      if (!targetUser) throw new NotFoundException('Target user not found');
+
+      // Participants are always stored in the same order so the unique pair matches
+      const [userOneId, userTwoId] = [userId, targetUserId].sort();
+
+      const conversation = await this.prisma.conversation.upsert({
+        where: { userOneId_userTwoId: { userOneId, userTwoId } },
+        create: { userOneId, userTwoId },
+        update: {},
+        select: conversationDataSelect,
+      });
+
+      return {
+        message: 'Get conversation successfully',
+        data: this.formatConversation(conversation, userId),
+        statusCode: 201,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Get conversations of a user ordered by last activity
+   * @param userId - Current user
+   * @param limit - Number of conversations per page
+   * @param page - Page number to fetch
+   * @returns Paginated list of conversations with their last message
+   */
+  async getConversations({
+    userId,
+    limit = 10,
+    page = 1,
+  }: {
+    userId: string;
+    limit?: number;
+    page?: number;
+  }): Promise<IPaginationResponseType<ConversationWithParticipantType>> {
+    try {
+      if (!userId) throw new BadRequestException('User ID is required');
+
+      const whereQuery: Prisma.ConversationWhereInput = {
+        OR: [{ userOneId: userId }, { userTwoId: userId }],
+      };
+
+      const [totalCount, conversations] = await this.prisma.$transaction([
+        this.prisma.conversation.count({ where: whereQuery }),
+        this.prisma.conversation.findMany({
+          where: whereQuery,
+          skip: (page - 1) * limit,
+          take: limit,
+          orderBy: { lastMessageAt: 'desc' },
+          select: conversationDataSelect,
+        }),
+      ]);
+
+      const totalPage = Math.ceil(totalCount / limit);
+      const hasNextPage = page < totalPage;
+      const hasPreviousPage = !!totalCount && page > 1;
+
+      return {
+        message: 'Get conversations successfully',
+        data: {
+          currentPage: page,
+          totalCount,
+          totalPage,
+          pageSize: limit,
+          hasNextPage,
+          hasPreviousPage,
+          items: conversations.map((conversation) =>
+            this.formatConversation(conversation, userId),
+          ),
+        },
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Send a message to a conversation
+   * @param conversationId - Target conversation
+   * @param senderId - Current user, must be a participant and not banned
+   * @param data - Message content
+   * @returns The created message
+   */
+  async sendMessage({
+    conversationId,
+    senderId,
+    data,
+  }: {
+    conversationId: string;
+    senderId: string;
+    data: SendMessageDto;
+  }): Promise<IResponseType<MessageDataType>> {
+    try {
+      const [conversation, sender] = await Promise.all([
+        this.validateParticipant({ conversationId, userId: senderId }),
+        this.prisma.user.findUnique({
+          where: { id: senderId },
+          select: { isBanned: true },
+        }),
+      ]);
+
+      if (!sender) throw new NotFoundException('User not found');
+      if (sender.isBanned) throw new ForbiddenException('User has been banned');
+
+      const currentDate = new Date();
+
+      const [message] = await this.prisma.$transaction([
+        this.prisma.message.create({
+          data: {
+            conversationId,
+            senderId,
+            content: data.content,
+            createdAt: currentDate,
+          },
+          select: messageDataSelect,
+        }),
+        this.prisma.conversation.update({
+          where: { id: conversationId },
+          data: { lastMessageAt: currentDate },
+          select: { id: true },
+        }),
+      ]);
+
+      this.eventsGateway.emit(
+        SocketEvent.MESSAGE_CREATED,
+        { message },
+        { userIds: [conversation.userOneId, conversation.userTwoId] },
+      );
+
+      return {
+        message: 'Message sent successfully',
+        data: message,
+        statusCode: 201,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Page through the message history of a conversation, newest first
+   * @param conversationId - Target conversation
+   * @param userId - Current user, must be a participant
+   * @param limit - Number of messages per page
+   * @param cursor - Decoded nextCursor of the previous page, null for the first page
+   * @returns Messages of the page and the cursor of the next one
+   */
+  async getMessages({
+    conversationId,
+    userId,
+    limit = 10,
+    cursor = null,
+  }: {
+    conversationId: string;
+    userId: string;
+    limit?: number;
+    cursor?: ICursorType | null;
+  }): Promise<ICursorPaginationResponseType<MessageDataType>> {
+    try {
+      await this.validateParticipant({ conversationId, userId });
+
+      const { where, orderBy, take } = getCursorPaginationQuery({
+        cursor,
+        limit,
+      });
+      const messages = await this.prisma.message.findMany({
+        where: { AND: [{ conversationId }, where] },
+        orderBy,
+        take,
+        select: messageDataSelect,
+      });
+
+      return {
+        message: 'Get messages successfully',
+        data: getCursorPaginationResult({ items: messages, limit }),
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  //   ----------------- Utils
+  private async validateParticipant({
+    conversationId,
+    userId,
+  }: {
+    conversationId: string;
+    userId: string;
+  }) {
+    if (!conversationId) {
+      throw new BadRequestException('Conversation id is required');
+    }
+
+    const conversation = await this.prisma.conversation.findUnique({
+      where: { id: conversationId },
+      select: { id: true, userOneId: true, userTwoId: true },
+    });
+
+    if (!conversation) throw new NotFoundException('Conversation not found');
+    if (
+      conversation.userOneId !== userId &&
+      conversation.userTwoId !== userId
+    ) {
+      throw new ForbiddenException('This conversation is not yours');
+    }
+
+    return conversation;
+  }
+
+  private formatConversation(
+    { userOne, userTwo, messages, ...conversation }: ConversationDataType,
+    userId: string,
+  ): ConversationWithParticipantType {
+    return {
+      ...conversation,
+      participant: userOne.id === userId ? userTwo : userOne,
+      lastMessage: messages[0] || null,
+    };
+  }
+}
@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, IsUUID, MaxLength } from 'class-validator';
+
+export class CreateConversationDto {
+  @ApiProperty({ default: '', description: 'ID of the user to message' })
+  @IsUUID()
+  @IsNotEmpty()
+  userId: string;
+}
+
+export class SendMessageDto {
+  @ApiProperty({ default: '' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(3000)
+  content: string;
+}
@@ -0,0 +1,272 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { CreditTransactionReason, Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { v4 as uuidv4 } from 'uuid';
+import { handleDefaultError } from 'src/global/functions.global';
+import {
+  ICreditReservationType,
+  IPaginationResponseType,
+} from 'src/interfaces/interfaces.global';
+import {
+  creditTransactionDataSelect,
+  CreditTransactionDataType,
+} from 'src/libs/prisma-types';
+import { PrismaService } from 'src/prisma/prisma.service';
+
+/**
+ * Every change of User.credits goes through this service so it is recorded in the ledger
+ * Methods accept a transaction client to join the caller's transaction
+ */
+@Injectable()
+export class CreditService {
+  private readonly logger = new Logger(CreditService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Add a signed amount to the balance of a user
+   * @param userId - Owner of the balance
+   * @param amount - Positive to credit, negative to debit
+   * @param reason - Why the balance changed
+   * @param referenceId - Post id, AI request id or admin id
+   * @param tx - Optional transaction to run in
+   * @returns The balance after the change
+   */
+  async addCredits({
+    userId,
+    amount,
+    reason,
+    referenceId,
+    tx,
+  }: {
+    userId: string;
+    amount: Decimal.Value;
+    reason: CreditTransactionReason;
+    referenceId?: string;
+    tx?: Prisma.TransactionClient;
+  }): Promise<Decimal> {
+    return this.runInTransaction(tx, async (client) => {
+      const { credits } = await client.user.update({
+        where: { id: userId },
+        data: { credits: { increment: amount } },
+        select: { credits: true },
+      });
+
+      await client.creditTransaction.create({
+        data: {
+          userId,
+          amount,
+          balanceAfter: credits,
+          reason,
+          referenceId,
+        },
+      });
+
+      return credits;
+    });
+  }
+
+  /**
+   * Overwrite the balance of a user, the ledger records the difference
+   * @param userId - Owner of the balance
+   * @param credits - New balance
+   * @param reason - Why the balance changed
+   * @param referenceId - Post id, AI request id or admin id
+   * @param tx - Optional transaction to run in
+   * @returns The balance after the change
+   */
+  async setCredits({
+    userId,
+    credits,
+    reason,
+    referenceId,
+    tx,
+  }: {
+    userId: string;
+    credits: Decimal.Value;
+    reason: CreditTransactionReason;
+    referenceId?: string;
+    tx?: Prisma.TransactionClient;
+  }): Promise<Decimal> {
+    return this.runInTransaction(tx, async (client) => {
+      // Lock the row so the difference is computed against the balance being replaced
+      const [currentUser] = await client.$queryRaw<{ credits: Decimal }[]>`
+        SELECT credits FROM users WHERE id = ${userId} FOR UPDATE
+      `;
+      if (!currentUser) throw new BadRequestException('User not found');
+
+      const { credits: balanceAfter } = await client.user.update({
+        where: { id: userId },
+        data: { credits },
+        select: { credits: true },
+      });
+
+      await client.creditTransaction.create({
+        data: {
+          userId,
+          amount: balanceAfter.minus(currentUser.credits ?? 0),
+          balanceAfter,
+          reason,
+          referenceId,
+        },
+      });
+
+      return balanceAfter;
+    });
+  }
+
+  /**
+   * Deduct credits up front for a paid feature
+   * The balance check and the decrement are one conditional update, concurrent requests cannot overspend
+   * @param userId - User paying for the feature
+   * @param amount - Price of the feature
+   * @param reason - Ledger reason of the debit
+   * @returns The reservation to commit on success or refund on failure
+   */
+  async reserveCredits({
+    userId,
+    amount,
+    reason,
+  }: {
+    userId: string;
+    amount: Decimal.Value;
+    reason: CreditTransactionReason;
+  }): Promise<ICreditReservationType> {
+    const price = new Decimal(amount);
+    const referenceId = uuidv4();
+
+    const balanceAfter = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.user.updateMany({
+        where: { id: userId, credits: { gte: price } },
+        data: { credits: { decrement: price } },
+      });
+      if (count === 0) {
+        throw new BadRequestException({
+          message: 'Not enough credits',
+          date: new Date(),
+        });
+      }
+
+      // The row stays locked by the update until the transaction ends
+      const { credits } = await tx.user.findUnique({
+        where: { id: userId },
+        select: { credits: true },
+      });
+
+      await tx.creditTransaction.create({
+        data: {
+          userId,
+          amount: price.negated(),
+          balanceAfter: credits,
+          reason,
+          referenceId,
+        },
+      });
+
+      return credits;
+    });
+
+    return {
+      referenceId,
+      userId,
+      amount: price,
+      reason,
+      balanceAfter,
+      settled: false,
+    };
+  }
+
+  /**
+   * Keep the reserved credits, a committed reservation can no longer be refunded
+   */
+  commitReservation(reservation?: ICreditReservationType): void {
+    if (reservation) reservation.settled = true;
+  }
+
+  /**
+   * Give the reserved credits back, does nothing once the reservation is settled
+   * Never throws, the caller is already handling the failure that caused the refund
+   * @returns The balance after the refund, or after the debit when nothing was refunded
+   */
+  async refundReservation(
+    reservation?: ICreditReservationType,
+  ): Promise<Decimal | undefined> {
+    if (!reservation || reservation.settled) return reservation?.balanceAfter;
+
+    reservation.settled = true;
+    try {
+      return await this.addCredits({
+        userId: reservation.userId,
+        amount: reservation.amount,
+        reason: CreditTransactionReason.REFUND,
+        referenceId: reservation.referenceId,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to refund ${reservation.amount} credits of reservation ${reservation.referenceId}`,
+        error?.stack,
+      );
+      return reservation.balanceAfter;
+    }
+  }
+
+  /**
+   * Get the credit transactions of a user, newest first
+   * @param userId - Owner of the balance
+   * @param limit - Number of transactions per page
+   * @param page - Page number to fetch
+   */
+  async getCreditHistory({
+    userId,
+    limit,
+    page,
+  }: {
+    userId: string;
+    limit: number;
+    page: number;
+  }): Promise<IPaginationResponseType<CreditTransactionDataType>> {
+    try {
+      const whereQuery: Prisma.CreditTransactionWhereInput = { userId };
+
+      const [totalCount, transactions] = await this.prisma.$transaction([
+        this.prisma.creditTransaction.count({ where: whereQuery }),
+        this.prisma.creditTransaction.findMany({
+          where: whereQuery,
+          take: limit,
+          skip: (page - 1) * limit,
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          select: creditTransactionDataSelect,
+        }),
+      ]);
+
+      const totalPage = Math.ceil(totalCount / limit);
+      const hasNextPage = page * limit < totalCount;
+      const hasPreviousPage = !!totalCount && page > 1;
+
+      return {
+        message: 'Get credit history successfully',
+        data: {
+          items: transactions,
+          totalCount,
+          totalPage,
+          currentPage: page,
+          pageSize: limit,
+          hasNextPage,
+          hasPreviousPage,
+        },
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  //   ----------------- Utils
+  private runInTransaction<ResultType>(
+    tx: Prisma.TransactionClient | undefined,
+    callback: (client: Prisma.TransactionClient) => Promise<ResultType>,
+  ): Promise<ResultType> {
+    return tx ? callback(tx) : this.prisma.$transaction(callback);
+  }
+}
@@ -79,4 +79,45 @@ export class EmailService {
       },
     });
   }
+
+  async sendNewLoginAlertEmail({
+    email,
+    context,
+  }: {
+    email: string;
+    context: {
+      name: string;
+      browser: string;
+      os: string;
+      ip_address: string;
+      date: string;
+    };
+  }) {
+    await this.mailerService.sendMail({
+      to: email,
+      subject: `SMO - New Login To Your Account`,
+      template: './new-login/html',
+      context,
+    });
+  }
+
+  async sendPasswordResetEmail({
+    email,
+    context,
+  }: {
+    email: string;
+    context: {
+      name: string;
+      reset_token: string;
+      reset_link: string | null;
+      expires_minutes: number;
+    };
+  }) {
+    await this.mailerService.sendMail({
+      to: email,
+      subject: `SMO - Reset Password`,
+      template: './password-reset/html',
+      context,
+    });
+  }
 }
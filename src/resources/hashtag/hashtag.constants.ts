@@ -0,0 +1,12 @@
+import { TrendingWindow } from 'src/global/enums.global';
+
+export const HASHTAG_CONSTANTS = {
+  DEFAULT_TRENDING_LIMIT: 5,
+  REINDEX_BATCH_SIZE: 500,
+  // Window length in hours
+  TRENDING_WINDOW_HOURS: {
+    [TrendingWindow.DAY]: 24,
+    [TrendingWindow.WEEK]: 24 * 7,
+    [TrendingWindow.MONTH]: 24 * 30,
+  } satisfies Record<TrendingWindow, number>,
+};
@@ -0,0 +1,72 @@
+import { Controller, Get, Param, Post, Query, UseGuards } from '@nestjs/common';
+import { HashtagService } from './hashtag.service';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { RoleGuard } from 'src/guards/role.guard';
+import { normalizePaginationParams } from 'src/utils/utils';
+import { TrendingWindow } from 'src/global/enums.global';
+import {
+  getHashtagPostsDecorator,
+  getTrendingHashtagsDecorator,
+  reindexHashtagsDecorator,
+  searchHashtagsDecorator,
+} from 'src/resources/hashtag/hashtag.decorators';
+
+@ApiTags('Hashtag')
+@ApiBearerAuth()
+@UseGuards(AuthGuard('jwt'), RoleGuard)
+@Controller('hashtag')
+export class HashtagController {
+  constructor(private readonly hashtagService: HashtagService) {}
+
+  @Get('/search')
+  @searchHashtagsDecorator()
+  searchHashtags(
+    @Query('keywords') keywords: string,
+    @Query('limit') _limit: string,
+  ) {
+    const { limit } = normalizePaginationParams({ limit: +_limit });
+    return this.hashtagService.searchHashtags({ keywords, limit });
+  }
+
+  @Get('/trending')
+  @getTrendingHashtagsDecorator()
+  getTrendingHashtags(
+    @Query('window') window: TrendingWindow,
+    @Query('limit') _limit: string,
+  ) {
+    const { limit } = normalizePaginationParams({ limit: +_limit || 5 });
+    return this.hashtagService.getTrendingHashtags({
+      window: Object.values(TrendingWindow).includes(window)
+        ? window
+        : undefined,
+      limit,
+    });
+  }
+
+  @Get('/:tag/posts')
+  @getHashtagPostsDecorator()
+  getHashtagPosts(
+    @Param('tag') tag: string,
+    @Query('page') _page: string,
+    @Query('limit') _limit: string,
+    @Query('likeUserId') likeUserId: string,
+  ) {
+    const { limit, page } = normalizePaginationParams({
+      limit: +_limit,
+      page: +_page,
+    });
+    return this.hashtagService.getHashtagPosts({
+      tag,
+      limit,
+      page,
+      likeUserId,
+    });
+  }
+
+  @Post('/reindex')
+  @reindexHashtagsDecorator()
+  reindexHashtags() {
+    return this.hashtagService.reindexHashtags();
+  }
+}
@@ -0,0 +1,70 @@
+import { applyDecorators } from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { ApiQueryLimitAndPage } from 'src/decorators/pagination.decorators';
+import { Roles } from 'src/decorators/roles.decorator';
+import { RolesLevel, TrendingWindow } from 'src/global/enums.global';
+
+export const searchHashtagsDecorator = () =>
+  applyDecorators(
+    ApiOperation({
+      summary: 'Search hashtags',
+      description:
+        'Autocomplete hashtags starting with the given keywords, most used first',
+    }),
+    ApiQuery({
+      name: 'keywords',
+      required: false,
+      description: 'Hashtag prefix, with or without #',
+    }),
+    ApiQuery({
+      name: 'limit',
+      required: false,
+      description: 'Max number of suggestions (Default : 10)',
+    }),
+  );
+
+export const getTrendingHashtagsDecorator = () =>
+  applyDecorators(
+    ApiOperation({
+      summary: 'Get trending hashtags',
+      description: 'Most used hashtags on public posts within a time window',
+    }),
+    ApiQuery({
+      name: 'window',
+      required: false,
+      enum: TrendingWindow,
+      description: 'Time window (Default : 24h)',
+    }),
+    ApiQuery({
+      name: 'limit',
+      required: false,
+      description: 'Number of hashtags (Default : 5)',
+    }),
+  );
+
+export const getHashtagPostsDecorator = () =>
+  applyDecorators(
+    ApiOperation({
+      summary: 'Get hashtag posts',
+      description: 'Retrieve public posts tagged with a hashtag, newest first',
+    }),
+    ApiParam({
+      name: 'tag',
+      description: 'Hashtag without the leading #',
+    }),
+    ApiQueryLimitAndPage(),
+    ApiQuery({
+      name: 'likeUserId',
+      required: false,
+      description: 'Optional user ID to check if the user liked the posts',
+    }),
+  );
+
+export const reindexHashtagsDecorator = () =>
+  applyDecorators(
+    Roles([RolesLevel.ADMIN]),
+    ApiOperation({
+      summary: 'Reindex hashtags (Admin)',
+      description: 'Rebuild the hashtags of every post from its content',
+    }),
+  );
@@ -0,0 +1,269 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { subHours } from 'date-fns';
+import { TrendingWindow } from 'src/global/enums.global';
+import {
+  extractHashtags,
+  handleDefaultError,
+} from 'src/global/functions.global';
+import {
+  IPaginationResponseType,
+  IResponseType,
+} from 'src/interfaces/interfaces.global';
+import {
+  hashtagDataSelect,
+  postDataSelect,
+  PostDataType,
+  TrendingTopicType,
+} from 'src/libs/prisma-types';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { HASHTAG_CONSTANTS } from 'src/resources/hashtag/hashtag.constants';
+
+@Injectable()
+export class HashtagService {
+  private readonly logger = new Logger(HashtagService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Replace the hashtags linked to a post with the ones found in its content
+   * Errors are only logged, a missed sync is fixed by the next edit or by reindexHashtags
+   * @param postId - Post to index
+   * @param content - Current content of the post
+   */
+  async syncPostHashtags({
+    postId,
+    content,
+  }: {
+    postId: string;
+    content: string;
+  }): Promise<void> {
+    try {
+      const tags = extractHashtags(content);
+
+      if (tags.length > 0) {
+        await this.prisma.hashtag.createMany({
+          data: tags.map((tag) => ({ tag })),
+          skipDuplicates: true,
+        });
+      }
+
+      const hashtags = await this.prisma.hashtag.findMany({
+        where: { tag: { in: tags } },
+        select: { id: true },
+      });
+      const hashtagIds = hashtags.map(({ id }) => id);
+
+      await this.prisma.$transaction([
+        this.prisma.postHashtag.deleteMany({
+          where: { postId, hashtagId: { notIn: hashtagIds } },
+        }),
+        this.prisma.postHashtag.createMany({
+          data: hashtagIds.map((hashtagId) => ({ postId, hashtagId })),
+          skipDuplicates: true,
+        }),
+      ]);
+    } catch (error) {
+      this.logger.error(
+        `Failed to sync hashtags of post ${postId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Most used hashtags on public posts within a time window
+   * @param window - 24h, 7d or 30d
+   * @param limit - Number of hashtags to return
+   * @returns Hashtags with the leading # and their usage count
+   */
+  async getTrendingHashtags({
+    window = TrendingWindow.DAY,
+    limit = HASHTAG_CONSTANTS.DEFAULT_TRENDING_LIMIT,
+  }: {
+    window?: TrendingWindow;
+    limit?: number;
+  }): Promise<IResponseType<TrendingTopicType[]>> {
+    try {
+      const since = subHours(
+        new Date(),
+        HASHTAG_CONSTANTS.TRENDING_WINDOW_HOURS[window],
+      );
+
+      const groups = await this.prisma.postHashtag.groupBy({
+        by: ['hashtagId'],
+        // Windowed on the post, links are recreated by updates and reindexing
+        where: {
+          post: { createdAt: { gte: since }, isPrivate: false },
+        },
+        _count: { hashtagId: true },
+        orderBy: [{ _count: { hashtagId: 'desc' } }, { hashtagId: 'asc' }],
+        take: limit,
+      });
+
+      const hashtags = await this.prisma.hashtag.findMany({
+        where: { id: { in: groups.map(({ hashtagId }) => hashtagId) } },
+        select: { id: true, tag: true },
+      });
+
+      const topics = groups.map(({ hashtagId, _count }) => ({
+        hashtag: `#${hashtags.find(({ id }) => id === hashtagId)?.tag}`,
+        count: _count.hashtagId,
+      }));
+
+      return {
+        message: topics.length
+          ? 'Trending topics fetched successfully'
+          : 'No topics found',
+        data: topics,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Autocomplete hashtags by prefix, most used first
+   * @param keywords - Prefix typed by the user, with or without #
+   * @param limit - Max number of suggestions
+   */
+  async searchHashtags({
+    keywords = '',
+    limit,
+  }: {
+    keywords?: string;
+    limit: number;
+  }): Promise<IResponseType<{ id: string; tag: string; postCount: number }[]>> {
+    try {
+      const prefix = keywords.trim().replace(/^#/, '').toLowerCase();
+
+      const hashtags = await this.prisma.hashtag.findMany({
+        where: prefix ? { tag: { startsWith: prefix } } : undefined,
+        orderBy: [{ posts: { _count: 'desc' } }, { tag: 'asc' }],
+        take: limit,
+        select: hashtagDataSelect,
+      });
+
+      return {
+        message: 'Search hashtags successfully',
+        data: hashtags.map(({ id, tag, _count }) => ({
+          id,
+          tag,
+          postCount: _count.posts,
+        })),
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  async getHashtagPosts({
+    tag,
+    limit,
+    page,
+    likeUserId,
+  }: {
+    tag: string;
+    limit: number;
+    page: number;
+    likeUserId?: string;
+  }): Promise<IPaginationResponseType<PostDataType & { isLiked: boolean }>> {
+    try {
+      const hashtag = await this.prisma.hashtag.findUnique({
+        where: { tag: tag.replace(/^#/, '').toLowerCase() },
+        select: { id: true },
+      });
+      if (!hashtag) throw new NotFoundException('Hashtag not found');
+
+      const whereQuery: Prisma.PostWhereInput = {
+        isPrivate: false,
+        hashtags: { some: { hashtagId: hashtag.id } },
+      };
+
+      const [totalCount, posts] = await this.prisma.$transaction([
+        this.prisma.post.count({ where: whereQuery }),
+        this.prisma.post.findMany({
+          where: whereQuery,
+          take: limit,
+          skip: (page - 1) * limit,
+          orderBy: { createdAt: 'desc' },
+          select: {
+            ...postDataSelect,
+            likes: {
+              where: { userId: likeUserId || '' },
+              select: { userId: true },
+            },
+          },
+        }),
+      ]);
+
+      const totalPage = Math.ceil(totalCount / limit);
+      const hasNextPage = page * limit < totalCount;
+      const hasPreviousPage = !!totalCount && page > 1;
+
+      return {
+        message: 'Hashtag posts fetched successfully',
+        data: {
+          items: posts.map(({ likes, ...post }) => ({
+            ...post,
+            isLiked: likes.length > 0,
+          })),
+          totalCount,
+          totalPage,
+          currentPage: page,
+          pageSize: limit,
+          hasNextPage,
+          hasPreviousPage,
+        },
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Rebuild the hashtags of every post, used to index posts written before hashtags existed
+   * @returns Number of indexed posts
+   */
+  async reindexHashtags(): Promise<IResponseType<{ indexedPosts: number }>> {
+    try {
+      let indexedPosts = 0;
+      let cursor: string | undefined;
+
+      // Walk the posts by id so memory stays flat on large tables
+      while (true) {
+        const posts = await this.prisma.post.findMany({
+          take: HASHTAG_CONSTANTS.REINDEX_BATCH_SIZE,
+          ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+          orderBy: { id: 'asc' },
+          select: { id: true, content: true },
+        });
+        if (posts.length === 0) break;
+
+        for (const post of posts) {
+          await this.syncPostHashtags({
+            postId: post.id,
+            content: post.content,
+          });
+        }
+
+        indexedPosts += posts.length;
+        cursor = posts[posts.length - 1].id;
+      }
+
+      return {
+        message: 'Reindex hashtags successfully',
+        data: { indexedPosts },
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { MentionService } from './mention.service';
+import { NotificationModule } from 'src/resources/notification/notification.module';
+
+@Module({
+  imports: [NotificationModule],
+  providers: [MentionService],
+  exports: [MentionService],
+})
+export class MentionModule {}
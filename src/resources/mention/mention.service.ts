@@ -0,0 +1,193 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { NotificationType } from '@prisma/client';
+import {
+  extractMentions,
+  handleDefaultError,
+} from 'src/global/functions.global';
+import { IPaginationResponseType } from 'src/interfaces/interfaces.global';
+import { mentionDataSelect, MentionDataType } from 'src/libs/prisma-types';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { NotificationService } from 'src/resources/notification/notification.service';
+
+@Injectable()
+export class MentionService {
+  private readonly logger = new Logger(MentionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  /**
+   * Resolve the @username mentions of a post or a comment and store them
+   * Unknown and banned users are ignored, newly mentioned users are notified
+   * Mentions in private posts only notify the author of the post, like getUserMentions only shows them to the author
+   * Errors are only logged, PostService awaits it after the post or comment is already saved
+   * @param content - Current content of the post or comment
+   * @param authorId - Author of the content
+   * @param postId - Post of the content
+   * @param commentId - Set when the content is a comment
+   */
+  async syncMentions({
+    content,
+    authorId,
+    postId,
+    commentId,
+  }: {
+    content: string;
+    authorId: string;
+    postId: string;
+    commentId?: string;
+  }): Promise<void> {
+    try {
+      const mentions = extractMentions(content);
+      const usernames = [
+        ...new Set(mentions.map(({ username }) => username.toLowerCase())),
+      ];
+
+      const users = usernames.length
+        ? await this.prisma.user.findMany({
+            where: {
+              // Expired suspensions count as lifted
+              AND: [
+                {
+                  OR: [
+                    { isBanned: false },
+                    { bannedUntil: { lte: new Date() } },
+                  ],
+                },
+                {
+                  OR: usernames.map((username) => ({
+                    username: {
+                      equals: username,
+                      mode: 'insensitive' as const,
+                    },
+                  })),
+                },
+              ],
+            },
+            select: { id: true, username: true },
+          })
+        : [];
+
+      const resolvedMentions = mentions
+        .map(({ username, start, length }) => ({
+          mentionedUserId: users.find(
+            (user) => user.username.toLowerCase() === username.toLowerCase(),
+          )?.id,
+          start,
+          length,
+        }))
+        .filter(({ mentionedUserId }) => mentionedUserId);
+
+      const targetWhere = commentId
+        ? { commentId }
+        : { postId, commentId: null };
+
+      const previousMentions = await this.prisma.mention.findMany({
+        where: targetWhere,
+        select: { mentionedUserId: true },
+      });
+
+      await this.prisma.$transaction([
+        this.prisma.mention.deleteMany({ where: targetWhere }),
+        this.prisma.mention.createMany({
+          data: resolvedMentions.map((mention) => ({
+            ...mention,
+            authorId,
+            postId,
+            commentId: commentId || null,
+          })),
+        }),
+      ]);
+
+      // Editing a post must not notify the same users again
+      const previousUserIds = previousMentions.map(
+        ({ mentionedUserId }) => mentionedUserId,
+      );
+      const newUserIds = [
+        ...new Set(
+          resolvedMentions.map(({ mentionedUserId }) => mentionedUserId),
+        ),
+      ].filter((userId) => !previousUserIds.includes(userId));
+
+      const post = newUserIds.length
+        ? await this.prisma.post.findUnique({
+            where: { id: postId },
+            select: { authorId: true, isPrivate: true },
+          })
+        : null;
+      const recipientIds = post?.isPrivate
+        ? newUserIds.filter((userId) => userId === post.authorId)
+        : newUserIds;
+
+      await Promise.all(
+        recipientIds.map((recipientId) =>
+          this.notificationService.createNotification({
+            recipientId,
+            actorId: authorId,
+            type: NotificationType.MENTION,
+            postId,
+            commentId,
+          }),
+        ),
+      );
+    } catch (error) {
+      this.logger.error(`Failed to sync mentions: ${error.message}`);
+    }
+  }
+
+  /**
+   * Paginated list of the posts and comments that mention a user
+   * Mentions in private posts are only visible to their author
+   * @param userId - Mentioned user
+   */
+  async getUserMentions({
+    userId,
+    limit,
+    page,
+  }: {
+    userId: string;
+    limit: number;
+    page: number;
+  }): Promise<IPaginationResponseType<MentionDataType>> {
+    try {
+      const whereQuery = {
+        mentionedUserId: userId,
+        post: { OR: [{ isPrivate: false }, { authorId: userId }] },
+      };
+
+      const [totalCount, mentions] = await this.prisma.$transaction([
+        this.prisma.mention.count({ where: whereQuery }),
+        this.prisma.mention.findMany({
+          where: whereQuery,
+          take: limit,
+          skip: (page - 1) * limit,
+          orderBy: { createdAt: 'desc' },
+          select: mentionDataSelect,
+        }),
+      ]);
+
+      const totalPage = Math.ceil(totalCount / limit);
+      const hasNextPage = page * limit < totalCount;
+      const hasPreviousPage = !!totalCount && page > 1;
+
+      return {
+        message: 'Get mentions successfully',
+        data: {
+          items: mentions,
+          totalCount,
+          totalPage,
+          currentPage: page,
+          pageSize: limit,
+          hasNextPage,
+          hasPreviousPage,
+        },
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { Controller, Get, Param, Put, Query, UseGuards } from '@nestjs/common';
+import { NotificationService } from './notification.service';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { RoleGuard } from 'src/guards/role.guard';
+import { DecodedAccessToken } from 'src/decorators/decodedAccessToken.decorator';
+import { IDecodedAccecssTokenType } from 'src/interfaces/interfaces.global';
+import { normalizePaginationParams } from 'src/utils/utils';
+import {
+  getNotificationsDecorator,
+  getUnreadCountDecorator,
+  markAllAsReadDecorator,
+  markAsReadDecorator,
+} from 'src/resources/notification/notification.decorators';
+
+@ApiTags('Notification')
+@ApiBearerAuth()
+@UseGuards(AuthGuard('jwt'), RoleGuard)
+@Controller('notification')
+export class NotificationController {
+  constructor(private readonly notificationService: NotificationService) {}
+
+  @Get('/')
+  @getNotificationsDecorator()
+  getNotifications(
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Query('page') _page: string,
+    @Query('limit') _limit: string,
+    @Query('unreadOnly') unreadOnly: string,
+  ) {
+    const { limit, page } = normalizePaginationParams({
+      limit: +_limit,
+      page: +_page,
+    });
+    return this.notificationService.getNotifications({
+      userId: decodedAccessToken.userId,
+      limit,
+      page,
+      unreadOnly: unreadOnly === 'true',
+    });
+  }
+
+  @Get('/unread-count')
+  @getUnreadCountDecorator()
+  getUnreadCount(
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+  ) {
+    return this.notificationService.getUnreadCount(decodedAccessToken.userId);
+  }
+
+  @Put('/read-all')
+  @markAllAsReadDecorator()
+  markAllAsRead(
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+  ) {
+    return this.notificationService.markAllAsRead(decodedAccessToken.userId);
+  }
+
+  @Put('/:notificationId/read')
+  @markAsReadDecorator()
+  markAsRead(
+    @Param('notificationId') notificationId: string,
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+  ) {
+    return this.notificationService.markAsRead({
+      notificationId,
+      userId: decodedAccessToken.userId,
+    });
+  }
+}
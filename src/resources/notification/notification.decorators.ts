@@ -0,0 +1,67 @@
+import { applyDecorators, UseGuards } from '@nestjs/common';
+import { ApiHeader, ApiOperation, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { ApiQueryLimitAndPage } from 'src/decorators/pagination.decorators';
+import { JwtTokenVerifyGuard } from 'src/guards/jwt-token-verify.guard';
+
+export const getNotificationsDecorator = () =>
+  applyDecorators(
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Get my notifications',
+      description:
+        'Retrieve a paginated list of notifications of the authenticated user',
+    }),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+    }),
+    ApiQueryLimitAndPage(),
+    ApiQuery({
+      name: 'unreadOnly',
+      required: false,
+      description: 'Only return unread notifications (true/false)',
+    }),
+  );
+
+export const getUnreadCountDecorator = () =>
+  applyDecorators(
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Get unread notifications count',
+      description: 'Count unread notifications of the authenticated user',
+    }),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+    }),
+  );
+
+export const markAsReadDecorator = () =>
+  applyDecorators(
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Mark notification as read',
+      description: 'Mark a specific notification of the authenticated user',
+    }),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+    }),
+    ApiParam({
+      name: 'notificationId',
+      description: 'ID of the notification to mark as read',
+    }),
+  );
+
+export const markAllAsReadDecorator = () =>
+  applyDecorators(
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Mark all notifications as read',
+      description: 'Mark every unread notification of the authenticated user',
+    }),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+    }),
+  );
@@ -0,0 +1,240 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { NotificationType, Prisma } from '@prisma/client';
+import { SocketEvent } from 'src/events/events.constants';
+import { EventsGateway } from 'src/events/events.gateway';
+import { handleDefaultError } from 'src/global/functions.global';
+import {
+  IPaginationResponseType,
+  IResponseType,
+} from 'src/interfaces/interfaces.global';
+import {
+  notificationDataSelect,
+  NotificationDataType,
+} from 'src/libs/prisma-types';
+import { PrismaService } from 'src/prisma/prisma.service';
+
+@Injectable()
+export class NotificationService {
+  private readonly logger = new Logger(NotificationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventsGateway: EventsGateway,
+  ) {}
+
+  /**
+   * Create a notification for a user and push it over the socket gateway
+   * Errors are only logged, likes and follows still succeed when the notification is lost
+   * @param recipientId - User who receives the notification
+   * @param actorId - User who performed the action
+   * @param type - Kind of action
+   * @param postId - Optional related post
+   * @param commentId - Optional related comment
+   */
+  async createNotification({
+    recipientId,
+    actorId,
+    type,
+    postId,
+    commentId,
+  }: {
+    recipientId: string;
+    actorId: string;
+    type: NotificationType;
+    postId?: string;
+    commentId?: string;
+  }): Promise<NotificationDataType | null> {
+    try {
+      // Users are not notified about their own actions
+      if (!recipientId || !actorId || recipientId === actorId) return null;
+
+      const notification = await this.prisma.notification.create({
+        data: {
+          recipientId,
+          actorId,
+          type,
+          postId,
+          commentId,
+        },
+        select: notificationDataSelect,
+      });
+
+      this.eventsGateway.emit(
+        SocketEvent.NOTIFICATION_CREATED,
+        { notification },
+        { userIds: [recipientId] },
+      );
+
+      return notification;
+    } catch (error) {
+      this.logger.error(`Failed to create notification: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Get notifications of a user with pagination
+   * @param userId - Recipient of the notifications
+   * @param limit - Number of notifications per page
+   * @param page - Page number to fetch
+   * @param unreadOnly - Only return notifications that have not been read
+   * @returns Paginated list of notifications, newest first
+   */
+  async getNotifications({
+    userId,
+    limit = 10,
+    page = 1,
+    unreadOnly = false,
+  }: {
+    userId: string;
+    limit?: number;
+    page?: number;
+    unreadOnly?: boolean;
+  }): Promise<IPaginationResponseType<NotificationDataType>> {
+    try {
+      if (!userId) throw new BadRequestException('User ID is required');
+
+      const whereQuery: Prisma.NotificationWhereInput = {
+        recipientId: userId,
+        ...(unreadOnly ? { isRead: false } : {}),
+      };
+
+      const [totalCount, notifications] = await this.prisma.$transaction([
+        this.prisma.notification.count({ where: whereQuery }),
+        this.prisma.notification.findMany({
+          where: whereQuery,
+          skip: (page - 1) * limit,
+          take: limit,
+          orderBy: { createdAt: 'desc' },
+          select: notificationDataSelect,
+        }),
+      ]);
+
+      const totalPage = Math.ceil(totalCount / limit);
+      const hasNextPage = page < totalPage;
+      const hasPreviousPage = !!totalCount && page > 1;
+
+      return {
+        message: 'Get notifications successfully',
+        data: {
+          currentPage: page,
+          totalCount,
+          totalPage,
+          pageSize: limit,
+          hasNextPage,
+          hasPreviousPage,
+          items: notifications,
+        },
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Count unread notifications of a user
+   * @param userId - Recipient of the notifications
+   * @returns Number of unread notifications
+   */
+  async getUnreadCount(
+    userId: string,
+  ): Promise<IResponseType<{ unreadCount: number }>> {
+    try {
+      if (!userId) throw new BadRequestException('User ID is required');
+
+      const unreadCount = await this.prisma.notification.count({
+        where: { recipientId: userId, isRead: false },
+      });
+
+      return {
+        message: 'Get unread notifications count successfully',
+        data: { unreadCount },
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Mark a single notification as read
+   * @param notificationId - Notification to mark
+   * @param userId - Current user, must be the recipient
+   * @returns The updated notification
+   */
+  async markAsRead({
+    notificationId,
+    userId,
+  }: {
+    notificationId: string;
+    userId: string;
+  }): Promise<IResponseType<NotificationDataType>> {
+    try {
+      if (!notificationId)
+        throw new BadRequestException('Notification ID is required');
+
+      const notification = await this.prisma.notification.findUnique({
+        where: { id: notificationId },
+        select: { id: true, recipientId: true, isRead: true, readAt: true },
+      });
+
+      if (!notification) throw new NotFoundException('Notification not found');
+      if (notification.recipientId !== userId)
+        throw new ForbiddenException('This notification is not yours');
+
+      const updatedNotification = await this.prisma.notification.update({
+        where: { id: notificationId },
+        data: {
+          isRead: true,
+          readAt: notification.readAt || new Date(),
+        },
+        select: notificationDataSelect,
+      });
+
+      return {
+        message: 'Mark notification as read successfully',
+        data: updatedNotification,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Mark every unread notification of a user as read
+   * @param userId - Recipient of the notifications
+   * @returns Number of notifications that were updated
+   */
+  async markAllAsRead(
+    userId: string,
+  ): Promise<IResponseType<{ updatedCount: number }>> {
+    try {
+      if (!userId) throw new BadRequestException('User ID is required');
+
+      const { count } = await this.prisma.notification.updateMany({
+        where: { recipientId: userId, isRead: false },
+        data: { isRead: true, readAt: new Date() },
+      });
+
+      return {
+        message: 'Mark all notifications as read successfully',
+        data: { updatedCount: count },
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsArray, IsBoolean, IsEnum, IsNotEmpty } from 'class-validator';
+import { PermissionKey } from 'src/global/enums.global';
+
+export class SetUserTypePermissionsDto {
+  @ApiProperty({ enum: PermissionKey, isArray: true, default: [] })
+  @IsArray()
+  @IsEnum(PermissionKey, { each: true })
+  permissions: PermissionKey[];
+}
+
+export class SetUserPermissionDto {
+  @ApiProperty({ enum: PermissionKey })
+  @IsEnum(PermissionKey)
+  @IsNotEmpty()
+  permission: PermissionKey;
+
+  @ApiProperty({
+    default: true,
+    description: 'true grants the permission, false revokes it for this user',
+  })
+  @IsBoolean()
+  granted: boolean;
+}
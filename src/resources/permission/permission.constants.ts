@@ -0,0 +1,37 @@
+import { PermissionKey } from 'src/global/enums.global';
+
+export const PERMISSION_CONSTANTS = {
+  CACHE_TTL: 10 * 60 * 1000, // 10 minutes
+  USER_CACHE_PREFIX: 'permissions:user:',
+  USER_TYPE_VERSION_PREFIX: 'permissions:userTypeVersion:',
+};
+
+export const PERMISSION_DESCRIPTIONS: Record<PermissionKey, string> = {
+  [PermissionKey.POST_UPDATE_ANY]: 'Update any post',
+  [PermissionKey.POST_DELETE_ANY]: 'Delete any post',
+  [PermissionKey.COMMENT_EDIT_ANY]: 'Edit any comment',
+  [PermissionKey.COMMENT_DELETE_ANY]: 'Delete any comment',
+  [PermissionKey.USER_READ_ANY]: 'Read the profile of any user',
+  [PermissionKey.USER_UPDATE_ANY]: 'Update the profile of any user',
+  [PermissionKey.USER_BAN]: 'Ban and unban users',
+  [PermissionKey.CREDITS_ADJUST]: 'Add or set the credits of any user',
+};
+
+// Default mappings, applied once to each permission when it is first created
+// Reproduces the access of the Roles([RolesLevel.X]) checks these permissions replaced
+const MANAGER_PERMISSIONS = [
+  PermissionKey.POST_UPDATE_ANY,
+  PermissionKey.COMMENT_EDIT_ANY,
+  PermissionKey.COMMENT_DELETE_ANY,
+  PermissionKey.USER_READ_ANY,
+];
+
+export const DEFAULT_USER_TYPE_IDS = {
+  MANAGER: '0c2d5733-69d0-4268-8a60-b39997f656b6',
+  ADMINISTRATOR: 'e741110a-432d-4c02-acf4-4ba4428f37b7',
+};
+
+export const DEFAULT_USER_TYPE_PERMISSIONS: Record<string, PermissionKey[]> = {
+  [DEFAULT_USER_TYPE_IDS.ADMINISTRATOR]: Object.values(PermissionKey),
+  [DEFAULT_USER_TYPE_IDS.MANAGER]: MANAGER_PERMISSIONS,
+};
@@ -0,0 +1,88 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { PermissionService } from './permission.service';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { RoleGuard } from 'src/guards/role.guard';
+import {
+  getPermissionsDecorator,
+  getUserPermissionsDecorator,
+  getUserTypePermissionsDecorator,
+  removeUserPermissionDecorator,
+  setUserPermissionDecorator,
+  setUserTypePermissionsDecorator,
+} from 'src/resources/permission/permission.decorators';
+import {
+  SetUserPermissionDto,
+  SetUserTypePermissionsDto,
+} from 'src/resources/permission/dto/permission.dto';
+
+@ApiTags('Permission Management')
+@ApiBearerAuth()
+@UseGuards(AuthGuard('jwt'), RoleGuard)
+@Controller('permission')
+export class PermissionController {
+  constructor(private readonly permissionService: PermissionService) {}
+
+  @Get('/')
+  @getPermissionsDecorator()
+  getPermissions() {
+    return this.permissionService.getPermissions();
+  }
+
+  @Get('/user-type/:userTypeId')
+  @getUserTypePermissionsDecorator()
+  getUserTypePermissions(@Param('userTypeId') userTypeId: string) {
+    return this.permissionService.getUserTypePermissions(userTypeId);
+  }
+
+  @Put('/user-type/:userTypeId')
+  @setUserTypePermissionsDecorator()
+  setUserTypePermissions(
+    @Param('userTypeId') userTypeId: string,
+    @Body() data: SetUserTypePermissionsDto,
+  ) {
+    return this.permissionService.setUserTypePermissions({
+      userTypeId,
+      permissionKeys: data.permissions,
+    });
+  }
+
+  @Get('/user/:userId')
+  @getUserPermissionsDecorator()
+  getUserPermissions(@Param('userId') userId: string) {
+    return this.permissionService.getUserPermissions(userId);
+  }
+
+  @Put('/user/:userId')
+  @setUserPermissionDecorator()
+  setUserPermission(
+    @Param('userId') userId: string,
+    @Body() data: SetUserPermissionDto,
+  ) {
+    return this.permissionService.setUserPermission({
+      userId,
+      permissionKey: data.permission,
+      granted: data.granted,
+    });
+  }
+
+  @Delete('/user/:userId/:permissionKey')
+  @removeUserPermissionDecorator()
+  removeUserPermission(
+    @Param('userId') userId: string,
+    @Param('permissionKey') permissionKey: string,
+  ) {
+    return this.permissionService.removeUserPermission({
+      userId,
+      permissionKey,
+    });
+  }
+}
@@ -0,0 +1,68 @@
+import { applyDecorators } from '@nestjs/common';
+import { ApiOperation, ApiParam } from '@nestjs/swagger';
+import { Roles } from 'src/decorators/roles.decorator';
+import { RolesLevel } from 'src/global/enums.global';
+
+export const getPermissionsDecorator = () =>
+  applyDecorators(
+    Roles([RolesLevel.ADMIN]),
+    ApiOperation({
+      summary: 'Get permissions (Admin)',
+      description: 'List every permission that can be assigned',
+    }),
+  );
+
+export const getUserTypePermissionsDecorator = () =>
+  applyDecorators(
+    Roles([RolesLevel.ADMIN]),
+    ApiOperation({
+      summary: 'Get user type permissions (Admin)',
+      description: 'List the permissions assigned to a user type',
+    }),
+    ApiParam({ name: 'userTypeId', description: 'User type ID' }),
+  );
+
+export const setUserTypePermissionsDecorator = () =>
+  applyDecorators(
+    Roles([RolesLevel.ADMIN]),
+    ApiOperation({
+      summary: 'Set user type permissions (Admin)',
+      description:
+        'Replace the permissions assigned to a user type with the given list',
+    }),
+    ApiParam({ name: 'userTypeId', description: 'User type ID' }),
+  );
+
+export const getUserPermissionsDecorator = () =>
+  applyDecorators(
+    Roles([RolesLevel.ADMIN]),
+    ApiOperation({
+      summary: 'Get user permissions (Admin)',
+      description:
+        'Get the effective permissions of a user and their per-user overrides',
+    }),
+    ApiParam({ name: 'userId', description: 'User ID' }),
+  );
+
+export const setUserPermissionDecorator = () =>
+  applyDecorators(
+    Roles([RolesLevel.ADMIN]),
+    ApiOperation({
+      summary: 'Grant or revoke user permission (Admin)',
+      description:
+        'Grant or revoke a permission for a single user, on top of their user type',
+    }),
+    ApiParam({ name: 'userId', description: 'User ID' }),
+  );
+
+export const removeUserPermissionDecorator = () =>
+  applyDecorators(
+    Roles([RolesLevel.ADMIN]),
+    ApiOperation({
+      summary: 'Remove user permission override (Admin)',
+      description:
+        'Remove a per-user grant or revoke so the user type permissions apply again',
+    }),
+    ApiParam({ name: 'userId', description: 'User ID' }),
+    ApiParam({ name: 'permissionKey', description: 'Permission key' }),
+  );
@@ -0,0 +1,12 @@
+import { Global, Module } from '@nestjs/common';
+import { PermissionService } from './permission.service';
+import { PermissionController } from './permission.controller';
+
+// Global so any module can use RequirePermissions() without importing it
+@Global()
+@Module({
+  controllers: [PermissionController],
+  providers: [PermissionService],
+  exports: [PermissionService],
+})
+export class PermissionModule {}
@@ -0,0 +1,154 @@
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Test } from '@nestjs/testing';
+import { PermissionKey } from 'src/global/enums.global';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  DEFAULT_USER_TYPE_IDS,
+  PERMISSION_CONSTANTS,
+} from 'src/resources/permission/permission.constants';
+import { PermissionService } from 'src/resources/permission/permission.service';
+
+const ADMINISTRATOR_ID = 'administrator-user';
+const MANAGER_ID = 'manager-user';
+
+// In memory tables, only the queries used by PermissionService are implemented
+const createPrismaMock = () => {
+  const db = {
+    permissions: [] as { id: string; key: string }[],
+    userTypePermissions: [] as { userTypeId: string; permissionId: string }[],
+    userTypes: [
+      { id: DEFAULT_USER_TYPE_IDS.ADMINISTRATOR },
+      { id: DEFAULT_USER_TYPE_IDS.MANAGER },
+    ],
+    users: [
+      { id: ADMINISTRATOR_ID, type: DEFAULT_USER_TYPE_IDS.ADMINISTRATOR },
+      { id: MANAGER_ID, type: DEFAULT_USER_TYPE_IDS.MANAGER },
+    ],
+  };
+
+  const prisma = {
+    permission: {
+      findMany: jest.fn(async ({ where }: any = {}) =>
+        db.permissions.filter(
+          ({ key }) => !where?.key?.in || where.key.in.includes(key),
+        ),
+      ),
+      createMany: jest.fn(async ({ data }: any) => {
+        data.forEach(({ key }) =>
+          db.permissions.push({ id: `permission-${key}`, key }),
+        );
+      }),
+    },
+    userType: {
+      findUnique: jest.fn(
+        async ({ where }: any) =>
+          db.userTypes.find(({ id }) => id === where.id) || null,
+      ),
+    },
+    userTypePermission: {
+      createMany: jest.fn(async ({ data }: any) => {
+        db.userTypePermissions.push(...data);
+      }),
+    },
+    user: {
+      findUnique: jest.fn(async ({ where }: any) => {
+        const user = db.users.find(({ id }) => id === where.id);
+        if (!user) return null;
+
+        return {
+          type: user.type,
+          userType: {
+            permissions: db.userTypePermissions
+              .filter(({ userTypeId }) => userTypeId === user.type)
+              .map(({ permissionId }) => ({
+                permission: db.permissions.find(
+                  ({ id }) => id === permissionId,
+                ),
+              })),
+          },
+          permissions: [],
+        };
+      }),
+    },
+  };
+
+  return { db, prisma };
+};
+
+const createCacheMock = () => {
+  const store = new Map<string, unknown>();
+
+  return {
+    get: jest.fn(async (key: string) => store.get(key)),
+    set: jest.fn(async (key: string, value: unknown) => {
+      store.set(key, value);
+    }),
+    del: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+  };
+};
+
+describe('PermissionService', () => {
+  let service: PermissionService;
+  let db: ReturnType<typeof createPrismaMock>['db'];
+  let cacheManager: ReturnType<typeof createCacheMock>;
+
+  beforeEach(async () => {
+    const prismaMock = createPrismaMock();
+    db = prismaMock.db;
+    cacheManager = createCacheMock();
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        PermissionService,
+        { provide: PrismaService, useValue: prismaMock.prisma },
+        { provide: CACHE_MANAGER, useValue: cacheManager },
+      ],
+    }).compile();
+
+    service = moduleRef.get(PermissionService);
+    await service.onModuleInit();
+  });
+
+  it('gives every permission to an Administrator', async () => {
+    const permissions = await service.getEffectivePermissions(ADMINISTRATOR_ID);
+
+    expect(permissions.sort()).toEqual(Object.values(PermissionKey).sort());
+    expect(
+      await service.hasPermissions(ADMINISTRATOR_ID, [
+        PermissionKey.USER_BAN,
+        PermissionKey.POST_DELETE_ANY,
+      ]),
+    ).toBe(true);
+  });
+
+  it('gives a Manager the moderation permissions only', async () => {
+    const permissions = await service.getEffectivePermissions(MANAGER_ID);
+
+    expect(permissions.sort()).toEqual(
+      [
+        PermissionKey.POST_UPDATE_ANY,
+        PermissionKey.COMMENT_EDIT_ANY,
+        PermissionKey.COMMENT_DELETE_ANY,
+        PermissionKey.USER_READ_ANY,
+      ].sort(),
+    );
+    expect(
+      await service.hasPermissions(MANAGER_ID, [PermissionKey.USER_BAN]),
+    ).toBe(false);
+  });
+
+  it('does not seed again a user type cleared by an admin', async () => {
+    db.userTypePermissions = db.userTypePermissions.filter(
+      ({ userTypeId }) => userTypeId !== DEFAULT_USER_TYPE_IDS.MANAGER,
+    );
+    await cacheManager.del(
+      `${PERMISSION_CONSTANTS.USER_CACHE_PREFIX}${MANAGER_ID}`,
+    );
+
+    await service.onModuleInit();
+
+    expect(await service.getEffectivePermissions(MANAGER_ID)).toEqual([]);
+  });
+});
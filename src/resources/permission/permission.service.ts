@@ -0,0 +1,408 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { PermissionKey } from 'src/global/enums.global';
+import { handleDefaultError } from 'src/global/functions.global';
+import { IResponseType } from 'src/interfaces/interfaces.global';
+import {
+  permissionDataSelect,
+  PermissionDataType,
+  userPermissionDataSelect,
+  UserPermissionDataType,
+} from 'src/libs/prisma-types';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  DEFAULT_USER_TYPE_PERMISSIONS,
+  PERMISSION_CONSTANTS,
+  PERMISSION_DESCRIPTIONS,
+} from 'src/resources/permission/permission.constants';
+
+interface ICachedPermissionsType {
+  userTypeId: string;
+  userTypeVersion: number;
+  permissions: string[];
+}
+
+@Injectable()
+export class PermissionService implements OnModuleInit {
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(CACHE_MANAGER) private cacheManager: Cache,
+  ) {}
+
+  /**
+   * Make sure every permission known by the code exists in the database
+   * Then map the permissions just created to the default user types
+   */
+  async onModuleInit() {
+    const existingPermissions = await this.prisma.permission.findMany({
+      select: { key: true },
+    });
+    const existingKeys = existingPermissions.map(({ key }) => key);
+    const newKeys = Object.values(PermissionKey).filter(
+      (key) => !existingKeys.includes(key),
+    );
+
+    if (!newKeys.length) return;
+
+    await this.prisma.permission.createMany({
+      data: newKeys.map((key) => ({
+        key,
+        description: PERMISSION_DESCRIPTIONS[key],
+      })),
+      skipDuplicates: true,
+    });
+
+    await this.seedDefaultUserTypePermissions(newKeys);
+  }
+
+  /**
+   * The permission row is the seed marker: a permission is mapped by default only on the boot that creates it
+   * So mappings edited or cleared by an admin are kept across restarts
+   */
+  private async seedDefaultUserTypePermissions(newKeys: PermissionKey[]) {
+    const permissions = await this.prisma.permission.findMany({
+      where: { key: { in: newKeys } },
+      select: { id: true, key: true },
+    });
+
+    for (const [userTypeId, keys] of Object.entries(
+      DEFAULT_USER_TYPE_PERMISSIONS,
+    )) {
+      const userType = await this.prisma.userType.findUnique({
+        where: { id: userTypeId },
+        select: { id: true },
+      });
+      if (!userType) continue;
+
+      const data = permissions
+        .filter(({ key }) => keys.includes(key as PermissionKey))
+        .map(({ id: permissionId }) => ({ userTypeId, permissionId }));
+      if (!data.length) continue;
+
+      await this.prisma.userTypePermission.createMany({
+        data,
+        skipDuplicates: true,
+      });
+      await this.invalidateUserTypePermissions(userTypeId);
+    }
+  }
+
+  /**
+   * Resolve the effective permissions of a user
+   * Permissions of the user type, plus per-user grants, minus per-user revokes
+   * @param userId - User to resolve
+   * @returns List of permission keys
+   */
+  async getEffectivePermissions(userId: string): Promise<string[]> {
+    const cacheKey = `${PERMISSION_CONSTANTS.USER_CACHE_PREFIX}${userId}`;
+    const cached =
+      await this.cacheManager.get<ICachedPermissionsType>(cacheKey);
+
+    // Cached entries are dropped once the mapping of their user type changes
+    if (
+      cached &&
+      cached.userTypeVersion ===
+        (await this.getUserTypeVersion(cached.userTypeId))
+    ) {
+      return cached.permissions;
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        type: true,
+        userType: {
+          select: {
+            permissions: { select: { permission: { select: { key: true } } } },
+          },
+        },
+        permissions: {
+          select: { granted: true, permission: { select: { key: true } } },
+        },
+      },
+    });
+
+    if (!user) return [];
+
+    const permissions = new Set(
+      user.userType.permissions.map(({ permission }) => permission.key),
+    );
+    user.permissions.forEach(({ granted, permission }) => {
+      if (granted) permissions.add(permission.key);
+      else permissions.delete(permission.key);
+    });
+
+    const cacheValue: ICachedPermissionsType = {
+      userTypeId: user.type,
+      userTypeVersion: await this.getUserTypeVersion(user.type),
+      permissions: [...permissions],
+    };
+
+    await this.cacheManager.set(
+      cacheKey,
+      cacheValue,
+      PERMISSION_CONSTANTS.CACHE_TTL,
+    );
+
+    return cacheValue.permissions;
+  }
+
+  async hasPermissions(
+    userId: string,
+    requiredPermissions: string[],
+  ): Promise<boolean> {
+    const permissions = await this.getEffectivePermissions(userId);
+    return requiredPermissions.every((permission) =>
+      permissions.includes(permission),
+    );
+  }
+
+  async invalidateUserPermissions(userId: string) {
+    await this.cacheManager.del(
+      `${PERMISSION_CONSTANTS.USER_CACHE_PREFIX}${userId}`,
+    );
+  }
+
+  async invalidateUserTypePermissions(userTypeId: string) {
+    // Bumping the version invalidates every cached user of this type at once
+    await this.cacheManager.set(
+      `${PERMISSION_CONSTANTS.USER_TYPE_VERSION_PREFIX}${userTypeId}`,
+      Date.now(),
+      0,
+    );
+  }
+
+  //   ----------------- Admin API
+  async getPermissions(): Promise<IResponseType<PermissionDataType[]>> {
+    try {
+      const permissions = await this.prisma.permission.findMany({
+        orderBy: { key: 'asc' },
+        select: permissionDataSelect,
+      });
+
+      return {
+        message: 'Get permissions successfully',
+        data: permissions,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  async getUserTypePermissions(
+    userTypeId: string,
+  ): Promise<IResponseType<PermissionDataType[]>> {
+    try {
+      await this.validateUserType(userTypeId);
+
+      const permissions = await this.prisma.permission.findMany({
+        where: { userTypes: { some: { userTypeId } } },
+        orderBy: { key: 'asc' },
+        select: permissionDataSelect,
+      });
+
+      return {
+        message: 'Get user type permissions successfully',
+        data: permissions,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Replace the permissions assigned to a user type
+   * @param userTypeId - User type to update
+   * @param permissionKeys - New full list of permissions
+   * @returns Permissions of the user type after the update
+   */
+  async setUserTypePermissions({
+    userTypeId,
+    permissionKeys,
+  }: {
+    userTypeId: string;
+    permissionKeys: string[];
+  }): Promise<IResponseType<PermissionDataType[]>> {
+    try {
+      await this.validateUserType(userTypeId);
+      const permissions = await this.findPermissionsByKeys(permissionKeys);
+
+      await this.prisma.$transaction([
+        this.prisma.userTypePermission.deleteMany({ where: { userTypeId } }),
+        this.prisma.userTypePermission.createMany({
+          data: permissions.map(({ id }) => ({
+            userTypeId,
+            permissionId: id,
+          })),
+        }),
+      ]);
+
+      await this.invalidateUserTypePermissions(userTypeId);
+
+      return {
+        message: 'Update user type permissions successfully',
+        data: permissions,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  async getUserPermissions(userId: string): Promise<
+    IResponseType<{
+      effectivePermissions: string[];
+      overrides: UserPermissionDataType[];
+    }>
+  > {
+    try {
+      await this.validateUser(userId);
+
+      const [effectivePermissions, overrides] = await Promise.all([
+        this.getEffectivePermissions(userId),
+        this.prisma.userPermission.findMany({
+          where: { userId },
+          select: userPermissionDataSelect,
+        }),
+      ]);
+
+      return {
+        message: 'Get user permissions successfully',
+        data: { effectivePermissions, overrides },
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Grant or revoke a permission for a single user
+   * @param userId - Target user
+   * @param permissionKey - Permission to grant or revoke
+   * @param granted - true to grant, false to revoke
+   * @returns The stored override
+   */
+  async setUserPermission({
+    userId,
+    permissionKey,
+    granted,
+  }: {
+    userId: string;
+    permissionKey: string;
+    granted: boolean;
+  }): Promise<IResponseType<UserPermissionDataType>> {
+    try {
+      await this.validateUser(userId);
+      const [permission] = await this.findPermissionsByKeys([permissionKey]);
+
+      const override = await this.prisma.userPermission.upsert({
+        where: {
+          userId_permissionId: { userId, permissionId: permission.id },
+        },
+        create: { userId, permissionId: permission.id, granted },
+        update: { granted },
+        select: userPermissionDataSelect,
+      });
+
+      await this.invalidateUserPermissions(userId);
+
+      return {
+        message: `${granted ? 'Grant' : 'Revoke'} user permission successfully`,
+        data: override,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  async removeUserPermission({
+    userId,
+    permissionKey,
+  }: {
+    userId: string;
+    permissionKey: string;
+  }): Promise<IResponseType> {
+    try {
+      await this.validateUser(userId);
+      const [permission] = await this.findPermissionsByKeys([permissionKey]);
+
+      await this.prisma.userPermission.deleteMany({
+        where: { userId, permissionId: permission.id },
+      });
+
+      await this.invalidateUserPermissions(userId);
+
+      return {
+        message: 'Remove user permission override successfully',
+        data: null,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  //   ----------------- Utils
+  private async getUserTypeVersion(userTypeId: string): Promise<number> {
+    return (
+      (await this.cacheManager.get<number>(
+        `${PERMISSION_CONSTANTS.USER_TYPE_VERSION_PREFIX}${userTypeId}`,
+      )) || 0
+    );
+  }
+
+  private async findPermissionsByKeys(permissionKeys: string[]) {
+    const uniqueKeys = [...new Set(permissionKeys)];
+    const permissions = await this.prisma.permission.findMany({
+      where: { key: { in: uniqueKeys } },
+      select: permissionDataSelect,
+    });
+
+    if (permissions.length !== uniqueKeys.length) {
+      throw new BadRequestException('Unknown permission');
+    }
+
+    return permissions;
+  }
+
+  private async validateUserType(userTypeId: string) {
+    if (!userTypeId) throw new BadRequestException('User type id is required');
+
+    const userType = await this.prisma.userType.findUnique({
+      where: { id: userTypeId },
+      select: { id: true },
+    });
+    if (!userType) throw new NotFoundException('User type not found');
+
+    return userType;
+  }
+
+  private async validateUser(userId: string) {
+    if (!userId) throw new BadRequestException('User ID is required');
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+    if (!user) throw new NotFoundException('User not found');
+
+    return user;
+  }
+}
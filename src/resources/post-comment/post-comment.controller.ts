@@ -27,7 +27,10 @@ import {
 } from 'src/resources/post-comment/post-comment.decorators';
 import { DecodedAccessToken } from 'src/decorators/decodedAccessToken.decorator';
 import { IDecodedAccecssTokenType } from 'src/interfaces/interfaces.global';
-import { normalizePaginationParams } from 'src/utils/utils';
+import {
+  normalizeCursorPaginationParams,
+  normalizePaginationParams,
+} from 'src/utils/utils';
 
 @ApiTags('Post Comment')
 @ApiBearerAuth()
@@ -58,6 +61,8 @@ export class PostCommentController {
     @Query('replyTo') replyTo: string,
     @Query('page') _page: string,
     @Query('limit') _limit: string,
+    @Query('cursor') _cursor?: string,
+    @Query('withTotal') _withTotal?: string,
   ) {
     const { page, limit } = normalizePaginationParams({
       page: parseInt(_page),
@@ -69,6 +74,10 @@ export class PostCommentController {
       page,
       limit,
       replyTo,
+      cursorPagination: normalizeCursorPaginationParams({
+        cursor: _cursor,
+        withTotal: _withTotal,
+      }),
     });
   }
 
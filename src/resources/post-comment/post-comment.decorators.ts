@@ -1,8 +1,13 @@
 import { applyDecorators, UseGuards } from '@nestjs/common';
 import { ApiHeader, ApiOperation, ApiQuery } from '@nestjs/swagger';
-import { ApiQueryLimitAndPage } from 'src/decorators/pagination.decorators';
-import { Roles } from 'src/decorators/roles.decorator';
-import { RolesLevel } from 'src/global/enums.global';
+import {
+  ApiQueryCursor,
+  ApiQueryLimitAndPage,
+} from 'src/decorators/pagination.decorators';
+import { AuditAction, AuditTargetType } from '@prisma/client';
+import { Audit } from 'src/decorators/audit-log.decorator';
+import { RequirePermissions } from 'src/decorators/permissions.decorator';
+import { PermissionKey } from 'src/global/enums.global';
 import { JwtTokenVerifyGuard } from 'src/guards/jwt-token-verify.guard';
 
 export const createPostCommentDecorator = () =>
@@ -27,6 +32,7 @@ export const getPostCommentDecorator = () =>
         'Retrieve all comments for a specific post with pagination support',
     }),
     ApiQueryLimitAndPage(),
+    ApiQueryCursor(),
     ApiQuery({
       name: 'replyTo',
       required: false,
@@ -49,7 +55,12 @@ export const updatePostCommentDecorator = () =>
 
 export const updatePostCommentByAdminDecorator = () =>
   applyDecorators(
-    Roles([RolesLevel.MANAGER]),
+    RequirePermissions(PermissionKey.COMMENT_EDIT_ANY),
+    Audit({
+      action: AuditAction.COMMENT_UPDATE,
+      targetType: AuditTargetType.COMMENT,
+      targetParam: 'commentId',
+    }),
     ApiOperation({
       summary: 'Update post comment by admin',
       description: 'Update a specific post comment by admin',
@@ -71,7 +82,12 @@ export const deletePostCommentDecorator = () =>
 
 export const deletePostCommentByAdminDecorator = () =>
   applyDecorators(
-    Roles([RolesLevel.MANAGER]),
+    RequirePermissions(PermissionKey.COMMENT_DELETE_ANY),
+    Audit({
+      action: AuditAction.COMMENT_DELETE,
+      targetType: AuditTargetType.COMMENT,
+      targetParam: 'commentId',
+    }),
     ApiOperation({
       summary: 'Delete post comment by admin',
       description: 'Delete a specific post comment by admin',
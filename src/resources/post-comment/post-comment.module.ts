@@ -3,10 +3,21 @@ import { PostCommentService } from './post-comment.service';
 import { PostCommentController } from './post-comment.controller';
 import { PostModule } from 'src/resources/post/post.module';
 import { PostService } from 'src/resources/post/post.service';
+import { NotificationModule } from 'src/resources/notification/notification.module';
+import { HashtagModule } from 'src/resources/hashtag/hashtag.module';
+import { MentionModule } from 'src/resources/mention/mention.module';
+import { CreditModule } from 'src/resources/credit/credit.module';
 
 @Module({
-  imports: [PostModule],
+  imports: [
+    PostModule,
+    NotificationModule,
+    HashtagModule,
+    MentionModule,
+    CreditModule,
+  ],
   controllers: [PostCommentController],
   providers: [PostCommentService, PostService],
+  exports: [PostCommentService],
 })
 export class PostCommentModule {}
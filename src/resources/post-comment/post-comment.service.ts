@@ -4,9 +4,11 @@ import {
   Injectable,
   NotFoundException,
 } from '@nestjs/common';
-import { Prisma } from '@prisma/client';
+import { NotificationType, Prisma } from '@prisma/client';
 import { handleDefaultError } from 'src/global/functions.global';
 import {
+  ICursorPaginationParamsType,
+  ICursorPaginationResponseType,
   IPaginationResponseType,
   IResponseType,
 } from 'src/interfaces/interfaces.global';
@@ -20,6 +22,14 @@ import {
   UpdatePostCommentDto,
 } from 'src/resources/post-comment/dto/post-copmment.dto';
 import { PostService } from 'src/resources/post/post.service';
+import { EventsGateway } from 'src/events/events.gateway';
+import { SocketEvent } from 'src/events/events.constants';
+import { NotificationService } from 'src/resources/notification/notification.service';
+import { MentionService } from 'src/resources/mention/mention.service';
+import {
+  getCursorPaginationQuery,
+  getCursorPaginationResult,
+} from 'src/utils/utils';
 
 @Injectable()
 export class PostCommentService {
@@ -27,6 +37,9 @@ export class PostCommentService {
     // private readonly postService: PostService,
     private readonly prisma: PrismaService,
     private readonly postService: PostService,
+    private readonly eventsGateway: EventsGateway,
+    private readonly notificationService: NotificationService,
+    private readonly mentionService: MentionService,
   ) {}
 
   // async createPostComment({
@@ -152,6 +165,7 @@ export class PostCommentService {
             id: true,
             level: true,
             replyToId: true,
+            authorId: true,
           },
         }));
       if (replyToId && !parentComment) {
@@ -172,7 +186,7 @@ export class PostCommentService {
       //   ? parentComment.replyToId
       //   : null;
 
-      const [, createdComment] = await this.prisma.$transaction([
+      const [, newComment] = await this.prisma.$transaction([
         this.prisma.post.update({
           where: { id: postId },
           data: { commentCount: { increment: 1 } },
@@ -186,7 +200,7 @@ export class PostCommentService {
             authorId,
             level: validLevel,
           },
-          select: postCommentDataSelect,
+          select: { id: true },
         }),
         ...(replyToId
           ? [
@@ -198,6 +212,58 @@ export class PostCommentService {
             ]
           : []),
       ]);
+
+      await this.mentionService.syncMentions({
+        content,
+        authorId,
+        postId,
+        commentId: newComment.id,
+      });
+
+      // Read the comment again so the response includes the resolved mentions
+      const createdComment = await this.prisma.postComment.findUnique({
+        where: { id: newComment.id },
+        select: postCommentDataSelect,
+      });
+
+      // Notify the post author and everyone watching the post
+      this.eventsGateway.emit(
+        SocketEvent.POST_COMMENTED,
+        {
+          postId,
+          commentCount: createdComment.post.commentCount,
+          comment: createdComment,
+        },
+        {
+          userIds: [createdComment.post.author.id],
+          postIds: [postId],
+        },
+      );
+
+      await Promise.all([
+        this.notificationService.createNotification({
+          recipientId: createdComment.post.author.id,
+          actorId: authorId,
+          type: NotificationType.POST_COMMENT,
+          postId,
+          commentId: createdComment.id,
+        }),
+        // The author of the replied comment is notified separately,
+        // unless they already got the post notification above
+        ...(parentComment &&
+        parentComment.authorId !== createdComment.post.author.id
+          ? [
+              this.notificationService.createNotification({
+                recipientId: parentComment.authorId,
+                actorId: authorId,
+                type: NotificationType.COMMENT_REPLY,
+                postId,
+                commentId: createdComment.id,
+              }),
+            ]
+          : []),
+      ]);
+
       return {
         message: 'Comment created successfully',
         data: createdComment,
@@ -214,12 +280,17 @@ export class PostCommentService {
     page = 1,
     limit = 10,
     replyTo,
+    cursorPagination,
   }: {
     postId: string;
     page: number;
     limit: number;
     replyTo: string;
-  }): Promise<IPaginationResponseType<PostCommentDataType>> {
+    cursorPagination?: ICursorPaginationParamsType;
+  }): Promise<
+    | IPaginationResponseType<PostCommentDataType>
+    | ICursorPaginationResponseType<PostCommentDataType>
+  > {
     try {
       if (!postId) {
         throw new BadRequestException('Post id is required');
@@ -242,6 +313,35 @@ export class PostCommentService {
         ...(replyTo && { replyToId: replyTo }),
       };
 
+      if (cursorPagination) {
+        const { where, orderBy, take } = getCursorPaginationQuery({
+          cursor: cursorPagination.cursor,
+          limit,
+        });
+
+        const [totalCount, comments] = await Promise.all([
+          cursorPagination.withTotal
+            ? this.prisma.postComment.count({ where: whereQuery })
+            : undefined,
+          this.prisma.postComment.findMany({
+            where: { AND: [whereQuery, where] },
+            orderBy,
+            take,
+            select: postCommentDataSelect,
+          }),
+        ]);
+
+        return {
+          message: 'Get comments successfully',
+          data: {
+            ...getCursorPaginationResult({ items: comments, limit }),
+            totalCount,
+          },
+          statusCode: 200,
+          date: new Date(),
+        };
+      }
+
       const [comments, totalCount] = await this.prisma.$transaction([
         this.prisma.postComment.findMany({
           where: whereQuery,
@@ -303,9 +403,22 @@ export class PostCommentService {
         throw new ForbiddenException('This comment is not yours');
       }
 
-      const updatedComment = await this.prisma.postComment.update({
+      const { postId, authorId: commentAuthorId } =
+        await this.prisma.postComment.update({
+          where: { id: commentId },
+          data: { content: data.content },
+          select: { postId: true, authorId: true },
+        });
+
+      await this.mentionService.syncMentions({
+        content: data.content,
+        authorId: commentAuthorId,
+        postId,
+        commentId,
+      });
+
+      const updatedComment = await this.prisma.postComment.findUnique({
         where: { id: commentId },
-        data: { content: data.content },
         select: postCommentDataSelect,
       });
       return { updatedComment };
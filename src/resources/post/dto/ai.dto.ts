@@ -1,12 +1,41 @@
-import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  IsNotEmpty,
+  IsEnum,
+  IsObject,
+  IsOptional,
+  MaxLength,
+} from 'class-validator';
+import { AiPostTemplate } from 'src/global/enums.global';
 
 export class GeneratePostDto {
-  @ApiProperty({
-    description: 'Prompt to generate a blog post',
+  @ApiPropertyOptional({
+    description:
+      'Prompt to generate a blog post, extra instructions for the other templates',
     example: 'Write a blog post about AI technology',
   })
   @IsString()
   @IsNotEmpty()
-  prompt: string;
+  @IsOptional()
+  @MaxLength(2000)
+  prompt?: string;
+
+  @ApiPropertyOptional({
+    enum: AiPostTemplate,
+    default: AiPostTemplate.BLOG,
+    description: 'Style of the post, see GET /post/ai/templates',
+  })
+  @IsEnum(AiPostTemplate)
+  @IsOptional()
+  template?: AiPostTemplate;
+
+  @ApiProperty({
+    required: false,
+    description: 'Variables of the template',
+    example: { technology: 'WebAssembly', length: 300 },
+  })
+  @IsObject()
+  @IsOptional()
+  variables?: Record<string, string | number>;
 }
@@ -1,4 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
 import { IsBoolean, IsNotEmpty, IsString, IsUUID } from 'class-validator';
 
 export class CreatePostDto {
@@ -8,10 +9,22 @@ export class CreatePostDto {
   content: string;
 
   @ApiProperty({ default: false })
+  // Multipart bodies send booleans as strings
+  @Transform(({ value }) => value === true || value === 'true')
   @IsBoolean()
   isPrivate: boolean;
 }
 
+export class CreatePostWithMediaDto extends CreatePostDto {
+  @ApiProperty({
+    type: 'array',
+    items: { type: 'string', format: 'binary' },
+    description: 'Max size : 5MB per file, max 4 files, Only Accept Image File',
+    required: false,
+  })
+  media?: Express.Multer.File[];
+}
+
 export class UpdatePostDto {
   @ApiProperty({ default: '' })
   @IsString()
@@ -0,0 +1,68 @@
+import { AiPostTemplate } from 'src/global/enums.global';
+import { POST_AI_PROMPTS } from 'src/global/constant.global';
+import { IAIPostTemplateType } from 'src/interfaces/ai.interfaces';
+
+export const POST_CONSTANTS = {
+  MAX_MEDIA_PER_POST: 4,
+  MAX_MEDIA_SIZE: 1024 * 1024 * 5, // 5MB
+  FEED_CACHE_PREFIX: 'feed:',
+  FEED_VERSION_PREFIX: 'feed:version:',
+  FEED_CACHE_TTL: 60 * 1000, // 1 minute
+  // Ranked feed score: (likes + 2 * comments + 1) / (age in hours + 2) ^ gravity
+  FEED_RANKING_GRAVITY: 1.5,
+};
+
+// Variables are rendered into the prompts with handlebars
+export const POST_AI_TEMPLATES: Record<AiPostTemplate, IAIPostTemplateType> = {
+  [AiPostTemplate.BLOG]: {
+    description: 'Friendly blog post about the topic of the prompt',
+    prompts: POST_AI_PROMPTS.GENERATE_BLOG_POST,
+    variables: [],
+    requiresPrompt: true,
+  },
+  [AiPostTemplate.TECH]: {
+    description: 'Expert post about a technology, its uses and its impact',
+    prompts: POST_AI_PROMPTS.GENERATE_TECH_POST,
+    variables: [
+      {
+        name: 'technology',
+        description: 'Technology to write about',
+        type: 'string',
+        required: true,
+        max: 100,
+      },
+      {
+        name: 'length',
+        description: 'Approximate number of words',
+        type: 'number',
+        required: false,
+        default: 200,
+        min: 50,
+        max: 1000,
+      },
+    ],
+    requiresPrompt: false,
+  },
+  [AiPostTemplate.ANNOUNCEMENT]: {
+    description: 'Short and clear announcement with a call to action',
+    prompts: POST_AI_PROMPTS.GENERATE_ANNOUNCEMENT_POST,
+    variables: [
+      {
+        name: 'topic',
+        description: 'What is announced',
+        type: 'string',
+        required: true,
+        max: 200,
+      },
+      {
+        name: 'audience',
+        description: 'Who the announcement is for',
+        type: 'string',
+        required: false,
+        default: 'cộng đồng',
+        max: 100,
+      },
+    ],
+    requiresPrompt: false,
+  },
+};
@@ -7,9 +7,13 @@ import {
   Post,
   Put,
   Query,
+  Res,
+  UploadedFiles,
   UseGuards,
+  ValidationPipe,
 } from '@nestjs/common';
 import { PostService } from './post.service';
+import { Response } from 'express';
 import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
 import {
   CreatePostDto,
@@ -18,9 +22,12 @@ import {
 } from 'src/resources/post/dto/post.dto';
 import {
   aiGeneratePostDecorator,
+  aiGeneratePostStreamDecorator,
+  getAiTemplatesDecorator,
   createPostDecorator,
   deletePostAsAdminDecorator,
   deletePostDecorator,
+  getFeedDecorator,
   getLikesPostDecorator,
   getMyPostsDecorator,
   getPostDecorator,
@@ -32,14 +39,21 @@ import {
 } from 'src/resources/post/post.decorators';
 import { DecodedAccessToken } from 'src/decorators/decodedAccessToken.decorator';
 import {
+  ICreditReservationType,
   IDecodedAccecssTokenType,
   IResponseType,
 } from 'src/interfaces/interfaces.global';
+import { CreditReservation } from 'src/decorators/credits.decorator';
 import { PostDataType } from 'src/libs/prisma-types';
 import { GeneratePostDto } from 'src/resources/post/dto/ai.dto';
-import { normalizePaginationParams } from 'src/utils/utils';
+import {
+  normalizeCursorPaginationParams,
+  normalizePaginationParams,
+} from 'src/utils/utils';
 import { AuthGuard } from '@nestjs/passport';
 import { RoleGuard } from 'src/guards/role.guard';
+import { FeedSort, TrendingWindow } from 'src/global/enums.global';
+import { FilesIsImageValidationPipe } from 'src/pipes/ImageTypeValidator.pipe';
 
 @ApiTags('Post Management')
 @ApiBearerAuth()
@@ -55,6 +69,8 @@ export class PostController {
     @Query('limit') _limit?: string,
     @Query('page') _page?: string,
     @Query('keywords') keywords?: string,
+    @Query('cursor') _cursor?: string,
+    @Query('withTotal') _withTotal?: string,
   ) {
     const { limit, page } = normalizePaginationParams({
       limit: +_limit,
@@ -70,13 +86,40 @@ export class PostController {
       userId,
       likeUserId: userId,
       getPrivatePost: true,
+      cursorPagination: normalizeCursorPaginationParams({
+        cursor: _cursor,
+        withTotal: _withTotal,
+      }),
+    });
+  }
+
+  @Get('feed')
+  @getFeedDecorator()
+  getFeed(
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Query('limit') _limit?: string,
+    @Query('page') _page?: string,
+    @Query('sort') sort?: FeedSort,
+  ) {
+    const { limit, page } = normalizePaginationParams({
+      limit: +_limit,
+      page: +_page,
+    });
+
+    return this.postService.getFeed({
+      userId: decodedAccessToken.userId,
+      limit,
+      page,
+      sort: sort === FeedSort.RANKED ? FeedSort.RANKED : FeedSort.LATEST,
     });
   }
 
   @Get('trending')
   @getTrendingTopicsDecorator()
-  getTrendingTopics() {
-    return this.postService.getTrendingTopics();
+  getTrendingTopics(@Query('window') window?: TrendingWindow) {
+    return this.postService.getTrendingTopics(
+      Object.values(TrendingWindow).includes(window) ? window : undefined,
+    );
   }
 
   @Get('get-likes/:postId')
@@ -86,12 +129,29 @@ export class PostController {
     @Query('page') _page: string,
     @Query('limit') _limit: string,
     @Query('userId') userId?: string,
+    @Query('cursor') _cursor?: string,
+    @Query('withTotal') _withTotal?: string,
   ) {
     const { limit, page } = normalizePaginationParams({
       limit: +_limit,
       page: +_page,
     });
-    return this.postService.getLikesPost({ postId, limit, page, userId });
+    return this.postService.getLikesPost({
+      postId,
+      limit,
+      page,
+      userId,
+      cursorPagination: normalizeCursorPaginationParams({
+        cursor: _cursor,
+        withTotal: _withTotal,
+      }),
+    });
+  }
+
+  @Get('/ai/templates')
+  @getAiTemplatesDecorator()
+  getAiTemplates() {
+    return this.postService.getAiTemplates();
   }
 
   @Get(':postId')
@@ -108,6 +168,8 @@ export class PostController {
     @Query('keywords') keywords?: string,
     @Query('userId') userId?: string,
     @Query('likeUserId') likeUserId?: string,
+    @Query('cursor') _cursor?: string,
+    @Query('withTotal') _withTotal?: string,
   ) {
     const { limit, page } = normalizePaginationParams({
       limit: +_limit,
@@ -120,6 +182,10 @@ export class PostController {
       page,
       userId,
       likeUserId,
+      cursorPagination: normalizeCursorPaginationParams({
+        cursor: _cursor,
+        withTotal: _withTotal,
+      }),
     });
   }
 
@@ -127,11 +193,25 @@ export class PostController {
   @aiGeneratePostDecorator()
   aiGeneratePost(
     @Body() data: GeneratePostDto,
-    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @CreditReservation() reservation: ICreditReservationType,
   ) {
     return this.postService.aiGeneratePost({
       data,
-      decodedAccessToken,
+      reservation,
+    });
+  }
+
+  @Post('/ai/generate-post/stream')
+  @aiGeneratePostStreamDecorator()
+  async aiGeneratePostStream(
+    @Body() data: GeneratePostDto,
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Res() response: Response,
+  ) {
+    await this.postService.aiGeneratePostStream({
+      data,
+      userId: decodedAccessToken.userId,
+      response,
     });
   }
 
@@ -151,9 +231,11 @@ export class PostController {
   @createPostDecorator()
   createPost(
     @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
-    @Body() data: CreatePostDto,
+    @Body(new ValidationPipe({ transform: true })) data: CreatePostDto,
+    @UploadedFiles(FilesIsImageValidationPipe)
+    files: Express.Multer.File[],
   ) {
-    return this.postService.createPost(decodedAccessToken, data);
+    return this.postService.createPost(decodedAccessToken, data, files);
   }
 
   @Put('admin/:postId')
@@ -1,20 +1,42 @@
-import { applyDecorators, UseGuards } from '@nestjs/common';
+import { applyDecorators, UseGuards, UseInterceptors } from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
 import {
   ApiBody,
+  ApiConsumes,
   ApiHeader,
   ApiOperation,
   ApiParam,
+  ApiProduces,
   ApiQuery,
 } from '@nestjs/swagger';
-import { ApiQueryLimitAndPage } from 'src/decorators/pagination.decorators';
-import { Roles } from 'src/decorators/roles.decorator';
-import { RolesLevel } from 'src/global/enums.global';
+import {
+  ApiQueryCursor,
+  ApiQueryLimitAndPage,
+} from 'src/decorators/pagination.decorators';
+import {
+  AuditAction,
+  AuditTargetType,
+  CreditTransactionReason,
+} from '@prisma/client';
+import { configData } from 'src/configs/configuration';
+import { Audit } from 'src/decorators/audit-log.decorator';
+import { ChargeCredits } from 'src/decorators/credits.decorator';
+import { RequirePermissions } from 'src/decorators/permissions.decorator';
+import {
+  FeedSort,
+  PermissionKey,
+  PricingFeature,
+  TrendingWindow,
+} from 'src/global/enums.global';
 import { JwtTokenVerifyGuard } from 'src/guards/jwt-token-verify.guard';
 import { GeneratePostDto } from 'src/resources/post/dto/ai.dto';
+import { CreatePostWithMediaDto } from 'src/resources/post/dto/post.dto';
+import { POST_CONSTANTS } from 'src/resources/post/post.constants';
 
 export const getPostsDecorator = () =>
   applyDecorators(
     ApiQueryLimitAndPage(),
+    ApiQueryCursor(),
     ApiOperation({
       summary: 'Get posts list',
       description:
@@ -36,9 +58,32 @@ export const getPostsDecorator = () =>
     }),
   );
 
+export const getFeedDecorator = () =>
+  applyDecorators(
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Get home feed',
+      description:
+        'Retrieve public posts of followed users and all posts of the authenticated user',
+    }),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+    }),
+    ApiQueryLimitAndPage(),
+    ApiQuery({
+      name: 'sort',
+      required: false,
+      enum: FeedSort,
+      description:
+        'latest (default) or ranked, which mixes recency with likes and comments',
+    }),
+  );
+
 export const getMyPostsDecorator = () =>
   applyDecorators(
     ApiQueryLimitAndPage(),
+    ApiQueryCursor(),
     UseGuards(JwtTokenVerifyGuard),
     ApiHeader({
       name: 'accessToken',
@@ -72,7 +117,13 @@ export const getTrendingTopicsDecorator = () =>
     ApiOperation({
       summary: 'Get trending topics',
       description:
-        'Retrieve a list of popular topics based on recent post engagement and activity',
+        'Retrieve the most used hashtags on public posts within a time window',
+    }),
+    ApiQuery({
+      name: 'window',
+      required: false,
+      enum: TrendingWindow,
+      description: 'Time window (Default : 24h)',
     }),
   );
 
@@ -92,18 +143,45 @@ export const likePostDecorator = () =>
     }),
   );
 
+export const getAiTemplatesDecorator = () =>
+  applyDecorators(
+    ApiOperation({
+      summary: 'Get AI post templates',
+      description:
+        'List the styles available to AI post generation and the variables each one accepts',
+    }),
+  );
+
 export const aiGeneratePostDecorator = () =>
   applyDecorators(
-    UseGuards(JwtTokenVerifyGuard),
+    ChargeCredits({
+      feature: PricingFeature.AI_GENERATE_POST,
+      model: configData.AI_MODEL,
+      reason: CreditTransactionReason.AI_GENERATION,
+    }),
     ApiOperation({
       summary: 'Generate AI post',
       description:
-        'Generate post content using AI technology. Authentication required.',
+        'Generate post content using AI technology, in the style of a template. Authentication required. The credits are refunded when the generation fails or the prompt is blocked.',
+    }),
+    ApiBody({
+      type: GeneratePostDto,
+    }),
+  );
+
+export const aiGeneratePostStreamDecorator = () =>
+  applyDecorators(
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Generate AI post as a stream',
+      description:
+        'Stream the generated content over Server-Sent Events: start, token (repeated), then done, blocked or error. Close the connection to cancel. The credits are taken when the stream starts and refunded when it is cancelled, fails or is blocked.',
     }),
     ApiHeader({
       name: 'accessToken',
       required: true,
     }),
+    ApiProduces('text/event-stream'),
     ApiBody({
       type: GeneratePostDto,
     }),
@@ -117,6 +195,7 @@ export const getLikesPostDecorator = () =>
         'Retrieve a paginated list of users who have liked the specified post',
     }),
     ApiQueryLimitAndPage(),
+    ApiQueryCursor(),
     ApiParam({
       name: 'postId',
       required: true,
@@ -135,12 +214,21 @@ export const createPostDecorator = () =>
     ApiOperation({
       summary: 'Create post',
       description:
-        'Create a new post with the provided content. Authentication required.',
+        'Create a new post with the provided content and optional images. Authentication required.',
     }),
     ApiHeader({
       name: 'accessToken',
       required: true,
     }),
+    ApiConsumes('multipart/form-data', 'application/json'),
+    ApiBody({ type: CreatePostWithMediaDto }),
+    UseInterceptors(
+      FilesInterceptor('media', POST_CONSTANTS.MAX_MEDIA_PER_POST, {
+        limits: {
+          fileSize: POST_CONSTANTS.MAX_MEDIA_SIZE,
+        },
+      }),
+    ),
   );
 
 export const updatePostDecorator = () =>
@@ -160,11 +248,15 @@ export const updatePostDecorator = () =>
 export const updatePostAsAdminDecorator = () =>
   applyDecorators(
     ApiOperation({
-      summary: 'Update post (Manager)',
-      description:
-        'Update any post content with manager-level access privileges',
+      summary: 'Update post (Admin)',
+      description: 'Update any post content (requires post.update.any)',
+    }),
+    RequirePermissions(PermissionKey.POST_UPDATE_ANY),
+    Audit({
+      action: AuditAction.POST_UPDATE,
+      targetType: AuditTargetType.POST,
+      targetParam: 'postId',
     }),
-    Roles([RolesLevel.MANAGER]),
   );
 
 export const deletePostDecorator = () =>
@@ -185,7 +277,12 @@ export const deletePostAsAdminDecorator = () =>
   applyDecorators(
     ApiOperation({
       summary: 'Delete post (Admin)',
-      description: 'Delete any post with administrator-level access privileges',
+      description: 'Delete any post (requires post.delete.any)',
+    }),
+    RequirePermissions(PermissionKey.POST_DELETE_ANY),
+    Audit({
+      action: AuditAction.POST_DELETE,
+      targetType: AuditTargetType.POST,
+      targetParam: 'postId',
     }),
-    Roles([RolesLevel.ADMIN]),
   );
@@ -1,9 +1,15 @@
 import { Module } from '@nestjs/common';
 import { PostService } from './post.service';
 import { PostController } from './post.controller';
+import { NotificationModule } from 'src/resources/notification/notification.module';
+import { HashtagModule } from 'src/resources/hashtag/hashtag.module';
+import { MentionModule } from 'src/resources/mention/mention.module';
+import { CreditModule } from 'src/resources/credit/credit.module';
 
 @Module({
+  imports: [NotificationModule, HashtagModule, MentionModule, CreditModule],
   controllers: [PostController],
   providers: [PostService],
+  exports: [PostService],
 })
 export class PostModule {}
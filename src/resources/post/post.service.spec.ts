@@ -0,0 +1,314 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Test } from '@nestjs/testing';
+import { CreditTransactionReason } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { EventEmitter } from 'events';
+import { Response } from 'express';
+import { AiProvider } from 'src/ai/ai-provider.service';
+import { FakeAiProvider } from 'src/ai/fake-ai-provider.service';
+import { EventsGateway } from 'src/events/events.gateway';
+import { blockResultMessage } from 'src/global/constant.global';
+import { AiStreamEvent, PricingFeature } from 'src/global/enums.global';
+import {
+  ICreditReservationType,
+  IDecodedAccecssTokenType,
+} from 'src/interfaces/interfaces.global';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { CreditService } from 'src/resources/credit/credit.service';
+import { HashtagService } from 'src/resources/hashtag/hashtag.service';
+import { MentionService } from 'src/resources/mention/mention.service';
+import { CreatePostDto } from 'src/resources/post/dto/post.dto';
+import { NotificationService } from 'src/resources/notification/notification.service';
+import { PostService } from 'src/resources/post/post.service';
+import { PricingService } from 'src/resources/pricing/pricing.service';
+import { StorageService } from 'src/storage/storage.service';
+
+const AI_MODEL = 'fake/test-model';
+const PROMPT = 'Write about "WebAssembly"';
+
+// Raw response the SSE events are written to, closing it before the end cancels the stream
+class FakeSseResponse extends EventEmitter {
+  headersSent = false;
+  writableEnded = false;
+  writableFinished = false;
+  chunks: string[] = [];
+
+  constructor(private readonly cancelOnFirstToken = false) {
+    super();
+  }
+
+  writeHead = jest.fn(() => {
+    this.headersSent = true;
+    return this;
+  });
+
+  write(chunk: string) {
+    this.chunks.push(chunk);
+    if (this.cancelOnFirstToken && chunk.startsWith('event: token')) {
+      this.emit('close');
+    }
+    return true;
+  }
+
+  end() {
+    this.writableEnded = true;
+    this.writableFinished = true;
+    this.emit('close');
+    return this;
+  }
+
+  get events() {
+    return this.chunks.map((chunk) => {
+      const [, event, data] = chunk.match(/^event: (.*)\ndata: (.*)\n\n$/s);
+      return { event, data: JSON.parse(data) };
+    });
+  }
+}
+
+describe('PostService AI generation', () => {
+  let service: PostService;
+  let aiProvider: AiProvider;
+  let reservation: ICreditReservationType;
+  const creditService = {
+    reserveCredits: jest.fn(),
+    commitReservation: jest.fn(),
+    refundReservation: jest.fn(),
+  };
+  const pricingService = { getPrice: jest.fn() };
+
+  beforeEach(async () => {
+    reservation = {
+      referenceId: 'reservation-id',
+      userId: 'user-id',
+      amount: new Decimal(1),
+      reason: CreditTransactionReason.AI_GENERATION,
+      balanceAfter: new Decimal(9),
+      settled: false,
+    };
+    creditService.reserveCredits.mockReset().mockResolvedValue(reservation);
+    creditService.commitReservation.mockReset();
+    creditService.refundReservation
+      .mockReset()
+      .mockResolvedValue(new Decimal(10));
+    pricingService.getPrice
+      .mockReset()
+      .mockResolvedValue({ price: new Decimal(1) });
+
+    const module = await Test.createTestingModule({
+      providers: [
+        PostService,
+        {
+          provide: AiProvider,
+          useValue: new FakeAiProvider(
+            new ConfigService({ AI_MODEL: AI_MODEL }),
+          ),
+        },
+        { provide: CreditService, useValue: creditService },
+        { provide: PricingService, useValue: pricingService },
+        { provide: PrismaService, useValue: {} },
+        { provide: StorageService, useValue: {} },
+        { provide: EventsGateway, useValue: {} },
+        { provide: NotificationService, useValue: {} },
+        { provide: HashtagService, useValue: {} },
+        { provide: MentionService, useValue: {} },
+        { provide: CACHE_MANAGER, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(PostService);
+    aiProvider = module.get(AiProvider);
+  });
+
+  describe('aiGeneratePost', () => {
+    it('returns the completion of the provider with the reserved price', async () => {
+      const result = await service.aiGeneratePost({
+        data: { prompt: PROMPT },
+        reservation,
+      });
+
+      expect(result.data).toEqual({
+        price: '1 credits',
+        priceNum: 1,
+        currentCredits: reservation.balanceAfter,
+        content: `[${AI_MODEL}] ${PROMPT}`,
+      });
+    });
+
+    it('throws on blocked prompts, so the reservation is refunded', async () => {
+      jest
+        .spyOn(aiProvider, 'createCompletion')
+        .mockResolvedValue(blockResultMessage);
+
+      await expect(
+        service.aiGeneratePost({ data: { prompt: PROMPT }, reservation }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('aiGeneratePostStream', () => {
+    const stream = (response: FakeSseResponse) =>
+      service.aiGeneratePostStream({
+        data: { prompt: PROMPT },
+        userId: 'user-id',
+        response: response as unknown as Response,
+      });
+
+    it('charges the price of the default model and commits once done', async () => {
+      const response = new FakeSseResponse();
+      await stream(response);
+
+      expect(pricingService.getPrice).toHaveBeenCalledWith({
+        feature: PricingFeature.AI_GENERATE_POST,
+        model: AI_MODEL,
+        userId: 'user-id',
+      });
+      expect(creditService.reserveCredits).toHaveBeenCalledWith({
+        userId: 'user-id',
+        amount: new Decimal(1),
+        reason: CreditTransactionReason.AI_GENERATION,
+      });
+      expect(creditService.commitReservation).toHaveBeenCalledWith(reservation);
+      expect(creditService.refundReservation).not.toHaveBeenCalled();
+
+      const { events } = response;
+      expect(events[0].event).toBe(AiStreamEvent.START);
+      expect(events.at(-1).event).toBe(AiStreamEvent.DONE);
+      expect(
+        events
+          .filter(({ event }) => event === AiStreamEvent.TOKEN)
+          .map(({ data }) => data.content)
+          .join(''),
+      ).toBe(`[${AI_MODEL}] ${PROMPT}`);
+      expect(response.writableEnded).toBe(true);
+    });
+
+    it('cleans up line breaks and escaped quotes across chunks', async () => {
+      jest.spyOn(aiProvider, 'streamCompletion').mockResolvedValue(
+        (async function* () {
+          yield 'Line one\nSay \\';
+          yield '"hi\\"';
+        })(),
+      );
+      const response = new FakeSseResponse();
+      await stream(response);
+
+      expect(
+        response.events
+          .filter(({ event }) => event === AiStreamEvent.TOKEN)
+          .map(({ data }) => data.content),
+      ).toEqual(['Line one<br>Say ', '"hi"']);
+    });
+
+    it('refunds blocked prompts', async () => {
+      jest.spyOn(aiProvider, 'streamCompletion').mockResolvedValue(
+        (async function* () {
+          yield blockResultMessage;
+        })(),
+      );
+      const response = new FakeSseResponse();
+      await stream(response);
+
+      expect(creditService.refundReservation).toHaveBeenCalledWith(reservation);
+      expect(creditService.commitReservation).not.toHaveBeenCalled();
+      expect(response.events.at(-1)).toMatchObject({
+        event: AiStreamEvent.BLOCKED,
+        data: { currentCredits: '10' },
+      });
+    });
+
+    it('refunds and sends an error event when the provider fails mid-stream', async () => {
+      jest.spyOn(aiProvider, 'streamCompletion').mockResolvedValue(
+        (async function* () {
+          yield 'Partial ';
+          throw new Error('Upstream failure');
+        })(),
+      );
+      jest.spyOn(Logger.prototype, 'error').mockImplementation();
+      const response = new FakeSseResponse();
+      await stream(response);
+
+      expect(creditService.refundReservation).toHaveBeenCalledWith(reservation);
+      expect(creditService.commitReservation).not.toHaveBeenCalled();
+      expect(response.events.at(-1).event).toBe(AiStreamEvent.ERROR);
+    });
+
+    it('refunds when the client cancels the stream', async () => {
+      const response = new FakeSseResponse(true);
+      await stream(response);
+
+      expect(creditService.refundReservation).toHaveBeenCalledWith(reservation);
+      expect(creditService.commitReservation).not.toHaveBeenCalled();
+      expect(response.events.map(({ event }) => event)).toEqual([
+        AiStreamEvent.START,
+        AiStreamEvent.TOKEN,
+      ]);
+    });
+
+    it('throws without writing the stream when the credits cannot be reserved', async () => {
+      creditService.reserveCredits.mockRejectedValue(
+        new BadRequestException('Not enough credits'),
+      );
+      const response = new FakeSseResponse();
+
+      await expect(stream(response)).rejects.toThrow('Not enough credits');
+      expect(response.writeHead).not.toHaveBeenCalled();
+      expect(response.chunks).toHaveLength(0);
+    });
+  });
+});
+
+describe('PostService createPost', () => {
+  let service: PostService;
+  const storage = { uploadFile: jest.fn(), deleteFiles: jest.fn() };
+  const file = (originalname: string) =>
+    ({
+      originalname,
+      mimetype: 'image/png',
+      size: 1,
+      buffer: Buffer.from(''),
+    }) as Express.Multer.File;
+
+  beforeEach(async () => {
+    storage.uploadFile.mockReset();
+    storage.deleteFiles.mockReset().mockResolvedValue(undefined);
+
+    const module = await Test.createTestingModule({
+      providers: [
+        PostService,
+        { provide: StorageService, useValue: storage },
+        { provide: AiProvider, useValue: {} },
+        { provide: CreditService, useValue: {} },
+        { provide: PricingService, useValue: {} },
+        { provide: PrismaService, useValue: {} },
+        { provide: EventsGateway, useValue: {} },
+        { provide: NotificationService, useValue: {} },
+        { provide: HashtagService, useValue: {} },
+        { provide: MentionService, useValue: {} },
+        { provide: CACHE_MANAGER, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(PostService);
+  });
+
+  it('removes the uploaded files when another upload of the batch fails', async () => {
+    storage.uploadFile
+      .mockResolvedValueOnce({ path: 'first.png', fileName: 'first.png' })
+      .mockRejectedValueOnce(new Error('Upload failed'))
+      .mockResolvedValueOnce({ path: 'third.png', fileName: 'third.png' });
+
+    await expect(
+      service.createPost(
+        { userId: 'user-id' } as IDecodedAccecssTokenType,
+        { content: 'Hello' } as CreatePostDto,
+        [file('first.png'), file('second.png'), file('third.png')],
+      ),
+    ).rejects.toThrow('Upload failed');
+    expect(storage.deleteFiles).toHaveBeenCalledWith([
+      'first.png',
+      'third.png',
+    ]);
+  });
+});
@@ -1,18 +1,28 @@
 import {
   BadRequestException,
   ForbiddenException,
+  Inject,
   Injectable,
+  Logger,
   NotFoundException,
 } from '@nestjs/common';
-import { Prisma } from '@prisma/client';
-import openai from 'src/configs/openai.config';
 import {
-  blockResultMessage,
-  POST_AI_PROMPTS,
-} from 'src/global/constant.global';
-import { handleDefaultError } from 'src/global/functions.global';
+  CreditTransactionReason,
+  NotificationType,
+  Prisma,
+} from '@prisma/client';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { blockResultMessage } from 'src/global/constant.global';
+import {
+  getImageDimensions,
+  handleDefaultError,
+} from 'src/global/functions.global';
 import {
   IBaseResponseAIType,
+  ICreditReservationType,
+  ICursorPaginationParamsType,
+  ICursorPaginationResponseType,
   IDecodedAccecssTokenType,
   IPaginationResponseType,
   IResponseType,
@@ -26,15 +36,59 @@ import {
   // TrendingTopicType,
 } from 'src/libs/prisma-types';
 import { PrismaService } from 'src/prisma/prisma.service';
+import { StorageService } from 'src/storage/storage.service';
+import { AiProvider } from 'src/ai/ai-provider.service';
+import {
+  getCursorPaginationQuery,
+  getCursorPaginationResult,
+} from 'src/utils/utils';
+import { EventsGateway } from 'src/events/events.gateway';
+import { SocketEvent } from 'src/events/events.constants';
+import { NotificationService } from 'src/resources/notification/notification.service';
 import {
   CreatePostDto,
   UpdatePostAsAdminDto,
   UpdatePostDto,
 } from 'src/resources/post/dto/post.dto';
+import {
+  POST_AI_TEMPLATES,
+  POST_CONSTANTS,
+} from 'src/resources/post/post.constants';
+import {
+  IAIMessagePromptType,
+  IAIPostTemplateType,
+} from 'src/interfaces/ai.interfaces';
+import { GeneratePostDto } from 'src/resources/post/dto/ai.dto';
+import * as handlebars from 'handlebars';
+import { Response } from 'express';
+import {
+  AiPostTemplate,
+  AiStreamEvent,
+  FeedSort,
+  PricingFeature,
+  TrendingWindow,
+} from 'src/global/enums.global';
+import { HashtagService } from 'src/resources/hashtag/hashtag.service';
+import { MentionService } from 'src/resources/mention/mention.service';
+import { CreditService } from 'src/resources/credit/credit.service';
+import { PricingService } from 'src/resources/pricing/pricing.service';
 
 @Injectable()
 export class PostService {
-  constructor(private readonly prisma: PrismaService) {}
+  private readonly logger = new Logger(PostService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly storage: StorageService,
+    private readonly eventsGateway: EventsGateway,
+    private readonly notificationService: NotificationService,
+    @Inject(CACHE_MANAGER) private cacheManager: Cache,
+    private readonly hashtagService: HashtagService,
+    private readonly mentionService: MentionService,
+    private readonly creditService: CreditService,
+    private readonly pricingService: PricingService,
+    private readonly aiProvider: AiProvider,
+  ) {}
   async validatePost(postId: string) {
     try {
       if (!postId) {
@@ -62,6 +116,7 @@ export class PostService {
     userId,
     likeUserId,
     getPrivatePost = false,
+    cursorPagination,
   }: {
     keywords?: string;
     limit: number;
@@ -69,7 +124,11 @@ export class PostService {
     userId?: string;
     likeUserId?: string;
     getPrivatePost?: boolean;
-  }): Promise<IPaginationResponseType<PostDataType>> {
+    cursorPagination?: ICursorPaginationParamsType;
+  }): Promise<
+    | IPaginationResponseType<PostDataType>
+    | ICursorPaginationResponseType<PostDataType>
+  > {
     try {
       const whereQuery: Prisma.PostWhereInput = {
         authorId: userId || undefined,
@@ -90,23 +149,61 @@ export class PostService {
         ],
       };
 
+      const selectQuery = {
+        ...postDataSelect,
+        likes: {
+          where: {
+            userId: likeUserId || '',
+          },
+          select: {
+            userId: true,
+          },
+        },
+      } satisfies Prisma.PostSelect;
+
+      if (cursorPagination) {
+        const { where, orderBy, take } = getCursorPaginationQuery({
+          cursor: cursorPagination.cursor,
+          limit,
+        });
+
+        // The count is only run when the client asks for totals
+        const [totalCount, posts] = await Promise.all([
+          cursorPagination.withTotal
+            ? this.prisma.post.count({ where: whereQuery })
+            : undefined,
+          this.prisma.post.findMany({
+            where: { AND: [whereQuery, where] },
+            orderBy,
+            take,
+            select: selectQuery,
+          }),
+        ]);
+
+        return {
+          message: 'Posts fetched successfully',
+          data: {
+            ...getCursorPaginationResult({
+              items: posts.map(({ likes, ...post }) => ({
+                ...post,
+                isLiked: likes.length > 0,
+              })),
+              limit,
+            }),
+            totalCount,
+          },
+          statusCode: 200,
+          date: new Date(),
+        };
+      }
+
       const [totalCount, posts] = await this.prisma.$transaction([
         this.prisma.post.count({ where: whereQuery }),
         this.prisma.post.findMany({
           where: whereQuery,
           take: limit,
           skip: (page - 1) * limit,
-          select: {
-            ...postDataSelect,
-            likes: {
-              where: {
-                userId: likeUserId || '',
-              },
-              select: {
-                userId: true,
-              },
-            },
-          },
+          select: selectQuery,
           // include: {
           //   ...postDataInclude,
           //   likes: {
@@ -150,6 +247,154 @@ export class PostService {
     }
   }
 
+  /**
+   * Home feed of a user: public posts of the users they follow and all of their own posts
+   * Each page is cached, the cache key embeds a per-user version so writes of the user drop it at once
+   * @param userId - Owner of the feed
+   * @param sort - latest (newest first) or ranked (recency mixed with likes and comments)
+   * @returns Paginated posts with isLiked flag
+   */
+  async getFeed({
+    userId,
+    limit,
+    page,
+    sort = FeedSort.LATEST,
+  }: {
+    userId: string;
+    limit: number;
+    page: number;
+    sort?: FeedSort;
+  }): Promise<IPaginationResponseType<PostDataType & { isLiked: boolean }>> {
+    try {
+      const version =
+        (await this.cacheManager.get<number>(
+          `${POST_CONSTANTS.FEED_VERSION_PREFIX}${userId}`,
+        )) || 0;
+      const cacheKey = `${POST_CONSTANTS.FEED_CACHE_PREFIX}${userId}:${version}:${sort}:${page}:${limit}`;
+
+      const cachedFeed =
+        await this.cacheManager.get<
+          IPaginationResponseType<PostDataType & { isLiked: boolean }>['data']
+        >(cacheKey);
+
+      if (cachedFeed) {
+        return {
+          message: 'Feed fetched successfully',
+          data: cachedFeed,
+          statusCode: 200,
+          date: new Date(),
+        };
+      }
+
+      const whereQuery: Prisma.PostWhereInput = {
+        OR: [
+          { authorId: userId },
+          {
+            isPrivate: false,
+            author: { followers: { some: { followerId: userId } } },
+          },
+        ],
+      };
+
+      const selectQuery = {
+        ...postDataSelect,
+        likes: {
+          where: { userId },
+          select: { userId: true },
+        },
+      } satisfies Prisma.PostSelect;
+
+      const skip = (page - 1) * limit;
+      const totalCount = await this.prisma.post.count({ where: whereQuery });
+
+      let posts: Prisma.PostGetPayload<{ select: typeof selectQuery }>[];
+
+      if (sort === FeedSort.RANKED) {
+        // Prisma can't order by an expression, rank the ids in SQL first
+        const rankedPosts = await this.prisma.$queryRaw<{ id: string }[]>`
+          SELECT p.id
+          FROM posts p
+          WHERE p.author_id = ${userId}
+            OR (
+              p.is_private = false
+              AND p.author_id IN (
+                SELECT f."followingId" FROM follows f WHERE f."followerId" = ${userId}
+              )
+            )
+          ORDER BY
+            (p.like_count + 2 * p.comment_count + 1)
+              / POWER(EXTRACT(EPOCH FROM (NOW() - p.created_at)) / 3600 + 2, ${POST_CONSTANTS.FEED_RANKING_GRAVITY}) DESC,
+            p.created_at DESC,
+            p.id DESC
+          LIMIT ${limit} OFFSET ${skip};
+        `;
+
+        const ids = rankedPosts.map(({ id }) => id);
+        const unorderedPosts = await this.prisma.post.findMany({
+          where: { id: { in: ids } },
+          select: selectQuery,
+        });
+        posts = ids
+          .map((id) => unorderedPosts.find((post) => post.id === id))
+          .filter(Boolean);
+      } else {
+        posts = await this.prisma.post.findMany({
+          where: whereQuery,
+          take: limit,
+          skip,
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          select: selectQuery,
+        });
+      }
+
+      const data = {
+        items: posts.map(({ likes, ...post }) => ({
+          ...post,
+          isLiked: likes.length > 0,
+        })),
+        totalCount,
+        totalPage: Math.ceil(totalCount / limit),
+        currentPage: page,
+        pageSize: limit,
+        hasNextPage: page * limit < totalCount,
+        hasPreviousPage: !!totalCount && page > 1,
+      };
+
+      await this.cacheManager.set(
+        cacheKey,
+        data,
+        POST_CONSTANTS.FEED_CACHE_TTL,
+      );
+
+      return {
+        message: 'Feed fetched successfully',
+        data,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Drop every cached feed page of a user
+   * Called when the user posts, likes or follows someone
+   * @param userId - Owner of the feed
+   */
+  async invalidateFeed(userId: string) {
+    try {
+      await this.cacheManager.set(
+        `${POST_CONSTANTS.FEED_VERSION_PREFIX}${userId}`,
+        Date.now(),
+        0,
+      );
+    } catch (error) {
+      // A stale feed only lasts until the cache TTL, never fail the request
+      this.logger.error(`Failed to invalidate feed: ${error.message}`);
+    }
+  }
+
   async getPostById({
     postId,
   }: {
@@ -192,13 +437,18 @@ export class PostService {
     limit,
     page,
     userId,
+    cursorPagination,
   }: {
     postId: string;
     page: number;
     limit: number;
     userId?: string;
+    cursorPagination?: ICursorPaginationParamsType;
   }): Promise<
-    IPaginationResponseType<Omit<PostLikeDataType, 'post'>> & {
+    (
+      | IPaginationResponseType<Omit<PostLikeDataType, 'post'>>
+      | ICursorPaginationResponseType<Omit<PostLikeDataType, 'post'>>
+    ) & {
       data: {
         post: PostDataType;
       };
@@ -232,20 +482,51 @@ export class PostService {
         ...(userId ? { userId } : {}),
       };
 
+      const selectQuery = {
+        id: true,
+        createdAt: true,
+        user: {
+          select: userDataSelect,
+        },
+      } satisfies Prisma.PostLikeSelect;
+
+      if (cursorPagination) {
+        const { where, orderBy, take } = getCursorPaginationQuery({
+          cursor: cursorPagination.cursor,
+          limit,
+        });
+
+        const [totalCount, likes] = await Promise.all([
+          cursorPagination.withTotal
+            ? this.prisma.postLike.count({ where: whereQuery })
+            : undefined,
+          this.prisma.postLike.findMany({
+            where: { AND: [whereQuery, where] },
+            orderBy,
+            take,
+            select: selectQuery,
+          }),
+        ]);
+
+        return {
+          message: 'Likes fetched successfully',
+          data: {
+            post,
+            ...getCursorPaginationResult({ items: likes, limit }),
+            totalCount,
+          },
+          statusCode: 200,
+          date: new Date(),
+        };
+      }
+
       const [likes, totalCount] = await this.prisma.$transaction([
         this.prisma.postLike.findMany({
           where: whereQuery,
           take: limit,
           skip: (page - 1) * limit,
           orderBy: { createdAt: 'desc' },
-
-          select: {
-            id: true,
-            createdAt: true,
-            user: {
-              select: userDataSelect,
-            },
-          },
+          select: selectQuery,
         }),
         this.prisma.postLike.count({
           where: whereQuery,
@@ -277,67 +558,107 @@ export class PostService {
     }
   }
 
-  async getTrendingTopics() {
-    try {
-      if (!(await this.prisma.post.count())) {
-        return {
-          message: 'No topics found',
-          data: [],
-          statusCode: 200,
-          date: new Date(),
-        };
-      }
-
-      const result = await this.prisma.$queryRaw<TrendingTopicType[]>`
-        SELECT LOWER(unnest(regexp_matches(content, '#[[:alnum:]_'']+', 'g'))) AS hashtag, COUNT(*) AS count
-        FROM posts
-        GROUP BY (hashtag)
-        ORDER BY count DESC, hashtag ASC
-        LIMIT 5;
-      `;
-
-      const topics = result.map((row) => ({
-        hashtag: row.hashtag,
-        count: Number(row.count),
-      }));
-
-      return {
-        message: 'Trending topics fetched successfully',
-        data: topics,
-        statusCode: 200,
-        date: new Date(),
-      };
-    } catch (error) {
-      handleDefaultError(error);
-    }
+  /**
+   * Top hashtags of public posts within a time window
+   * @param window - 24h (default), 7d or 30d
+   */
+  async getTrendingTopics(
+    window?: TrendingWindow,
+  ): Promise<IResponseType<TrendingTopicType[]>> {
+    return this.hashtagService.getTrendingHashtags({ window });
   }
 
+  /**
+   * Create a post with optional image attachments
+   * @param decodedAccessToken - Token of the author
+   * @param data - Post content and visibility
+   * @param files - Optional images, stored in order of upload
+   * @returns The created post with its media
+   */
   async createPost(
     decodedAccessToken: IDecodedAccecssTokenType,
     data: CreatePostDto,
+    files: Express.Multer.File[] = [],
   ): Promise<IResponseType<PostDataType>> {
+    let uploadedPaths: string[] = [];
     try {
       const { userId } = decodedAccessToken;
-      const [, post] = await this.prisma.$transaction([
-        this.prisma.user.update({
+
+      // Upload the images first so the post is only created with valid media
+      // Settled one by one, so the files uploaded before a failure are still cleaned up
+      const uploadResults = await Promise.allSettled(
+        files.map((file) => this.storage.uploadFile(file)),
+      );
+      const uploadedFiles = uploadResults
+        .filter((result) => result.status === 'fulfilled')
+        .map(({ value }) => value);
+      uploadedPaths = uploadedFiles.map(({ path }) => path);
+
+      const failedUpload = uploadResults.find(
+        (result) => result.status === 'rejected',
+      );
+      if (failedUpload) throw failedUpload.reason;
+
+      const media = uploadedFiles.map(({ url, path }, index) => ({
+        url,
+        path,
+        mimeType: files[index].mimetype,
+        size: files[index].size,
+        order: index,
+        ...getImageDimensions(files[index].buffer),
+      }));
+
+      const { price: reward } = await this.pricingService.getPrice({
+        feature: PricingFeature.POST_REWARD,
+      });
+
+      const createdPost = await this.prisma.$transaction(async (tx) => {
+        const newPost = await tx.post.create({
+          data: {
+            content: data.content,
+            isPrivate: data.isPrivate,
+            authorId: userId,
+            media: { createMany: { data: media } },
+          },
+          select: postDataSelect,
+        });
+
+        await tx.user.update({
           where: { id: userId },
           data: {
-            credits: {
-              increment: 0.2,
-            },
             postCount: {
               increment: 1,
             },
           },
-        }),
-        this.prisma.post.create({
-          data: {
-            ...data,
-            authorId: userId,
-          },
-          select: postDataSelect,
-        }),
-      ]);
+        });
+        await this.creditService.addCredits({
+          userId,
+          amount: reward,
+          reason: CreditTransactionReason.POST_REWARD,
+          referenceId: newPost.id,
+          tx,
+        });
+
+        return newPost;
+      });
+
+      await this.hashtagService.syncPostHashtags({
+        postId: createdPost.id,
+        content: createdPost.content,
+      });
+      await this.mentionService.syncMentions({
+        content: createdPost.content,
+        authorId: userId,
+        postId: createdPost.id,
+      });
+      await this.invalidateFeed(userId);
+
+      // Read the post again so the response includes the resolved mentions
+      const post = await this.prisma.post.findUnique({
+        where: { id: createdPost.id },
+        select: postDataSelect,
+      });
+
       return {
         message: 'Post created successfully',
         data: post,
@@ -345,6 +666,8 @@ export class PostService {
         date: new Date(),
       };
     } catch (error) {
+      // Don't leave orphan objects in the storage when the post is not created
+      await this.removeMediaFiles(uploadedPaths);
       handleDefaultError(error);
     }
   }
@@ -419,6 +742,29 @@ export class PostService {
         }),
       ]);
 
+      // Push the new like state to the author and everyone watching the post
+      this.eventsGateway.emit(
+        SocketEvent.POST_LIKED,
+        {
+          postId,
+          userId: decodedAccessToken.userId,
+          isLiked: !isLiked,
+          likeCount: updatedPost.likeCount,
+        },
+        { userIds: [updatedPost.author.id], postIds: [postId] },
+      );
+
+      await this.invalidateFeed(decodedAccessToken.userId);
+
+      if (!isLiked) {
+        await this.notificationService.createNotification({
+          recipientId: updatedPost.author.id,
+          actorId: decodedAccessToken.userId,
+          type: NotificationType.POST_LIKE,
+          postId,
+        });
+      }
+
       return {
         message: 'Post liked/unliked successfully',
         data: { ...updatedPost, isLiked: !isLiked },
@@ -430,12 +776,17 @@ export class PostService {
     }
   }
 
+  /**
+   * Generate a post with AI, paid with credits reserved by ChargeCredits
+   * @param data - Prompt of the user, template and its variables
+   * @param reservation - Credits reserved for this request, refunded if this throws
+   */
   async aiGeneratePost({
     data,
-    decodedAccessToken,
+    reservation,
   }: {
-    data: { prompt: string };
-    decodedAccessToken: IDecodedAccecssTokenType;
+    data: GeneratePostDto;
+    reservation: ICreditReservationType;
   }): Promise<
     IResponseType<
       IBaseResponseAIType & {
@@ -444,53 +795,23 @@ export class PostService {
     >
   > {
     try {
-      const user = await this.prisma.user.findUnique({
-        where: {
-          id: decodedAccessToken.userId,
-        },
-        select: {
-          credits: true,
-        },
-      });
-
-      if (user.credits.lte(0)) {
-        throw new BadRequestException({
-          message: 'Not enough credits',
-          date: new Date(),
-        });
-      }
-
-      const updateUser = await this.prisma.user.update({
-        where: {
-          id: decodedAccessToken.userId,
-        },
-        data: {
-          credits: {
-            decrement: 1,
-          },
-        },
-        select: {
-          credits: true,
-        },
-      });
+      const price = `${reservation.amount} credits`;
+      const priceNum = reservation.amount.toNumber();
 
-      const completion = await openai.chat.completions.create({
-        model: 'openai/gpt-4o-mini',
-        messages: [
-          ...POST_AI_PROMPTS.GENERATE_BLOG_POST,
-          { role: 'user', content: data.prompt },
-        ],
+      const completion = await this.aiProvider.createCompletion({
+        messages: this.getAiPostMessages(data),
       });
-      const resultContent = completion.choices[0].message.content
+      const resultContent = completion
         .replaceAll('\n', '<br>')
         .replaceAll(/\\"/g, '"');
 
       if (resultContent === blockResultMessage)
         throw new BadRequestException({
           message: blockResultMessage,
-          price: '1 credits',
-          priceNum: 1,
-          currentCredits: updateUser.credits,
+          price,
+          priceNum,
+          // The reservation is refunded when this throws
+          currentCredits: reservation.balanceAfter.plus(reservation.amount),
           statusCode: 400,
           date: new Date(),
         });
@@ -498,9 +819,9 @@ export class PostService {
       return {
         message: 'AI generated a post successfully',
         data: {
-          price: '1 credits',
-          priceNum: 1,
-          currentCredits: updateUser.credits,
+          price,
+          priceNum,
+          currentCredits: reservation.balanceAfter,
           content: resultContent,
         },
         statusCode: 200,
@@ -511,6 +832,227 @@ export class PostService {
     }
   }
 
+  /**
+   * Generate a post with AI and stream the tokens over Server-Sent Events
+   * Credits are reserved when the stream starts and refunded when it aborts, fails or is blocked
+   * Errors before the stream starts are thrown as usual, later ones are sent as an error event
+   * @param data - Prompt of the user, template and its variables
+   * @param userId - User paying for the generation
+   * @param response - Raw response the events are written to, closed by the client to cancel
+   */
+  async aiGeneratePostStream({
+    data,
+    userId,
+    response,
+  }: {
+    data: GeneratePostDto;
+    userId: string;
+    response: Response;
+  }): Promise<void> {
+    let reservation: ICreditReservationType;
+    const abortController = new AbortController();
+    // The connection closing before the end means the client cancelled
+    const abortOnClose = () => {
+      if (!response.writableFinished) abortController.abort();
+    };
+    response.on('close', abortOnClose);
+
+    try {
+      const messages = this.getAiPostMessages(data);
+      const { price: amount } = await this.pricingService.getPrice({
+        feature: PricingFeature.AI_GENERATE_POST,
+        model: this.aiProvider.defaultModel,
+        userId,
+      });
+      reservation = await this.creditService.reserveCredits({
+        userId,
+        amount,
+        reason: CreditTransactionReason.AI_GENERATION,
+      });
+      const price = `${reservation.amount} credits`;
+      const priceNum = reservation.amount.toNumber();
+
+      const stream = await this.aiProvider.streamCompletion({
+        messages,
+        signal: abortController.signal,
+      });
+
+      response.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      this.writeSseEvent(response, AiStreamEvent.START, {
+        price,
+        priceNum,
+        currentCredits: reservation.balanceAfter,
+      });
+
+      let rawContent = '';
+      // A trailing backslash may be escaping a quote of the next chunk
+      let pendingBackslash = '';
+      for await (const delta of stream) {
+        rawContent += delta;
+
+        let text = pendingBackslash + delta;
+        pendingBackslash = text.endsWith('\\') ? '\\' : '';
+        if (pendingBackslash) text = text.slice(0, -1);
+
+        this.writeSseEvent(response, AiStreamEvent.TOKEN, {
+          content: text.replaceAll('\n', '<br>').replaceAll(/\\"/g, '"'),
+        });
+      }
+      if (pendingBackslash) {
+        this.writeSseEvent(response, AiStreamEvent.TOKEN, {
+          content: pendingBackslash,
+        });
+      }
+
+      if (rawContent.trim() === blockResultMessage) {
+        const currentCredits =
+          await this.creditService.refundReservation(reservation);
+        this.writeSseEvent(response, AiStreamEvent.BLOCKED, {
+          message: blockResultMessage,
+          price,
+          priceNum,
+          currentCredits,
+        });
+      } else {
+        this.creditService.commitReservation(reservation);
+        this.writeSseEvent(response, AiStreamEvent.DONE, {
+          price,
+          priceNum,
+          currentCredits: reservation.balanceAfter,
+        });
+      }
+      response.end();
+    } catch (error) {
+      await this.creditService.refundReservation(reservation);
+
+      if (!response.headersSent) handleDefaultError(error);
+
+      if (!abortController.signal.aborted) {
+        this.logger.error(`AI stream failed: ${error.message}`);
+        this.writeSseEvent(response, AiStreamEvent.ERROR, {
+          message: 'AI generation failed, your credits have been refunded',
+        });
+      }
+      response.end();
+    } finally {
+      response.off('close', abortOnClose);
+    }
+  }
+
+  private writeSseEvent(
+    response: Response,
+    event: AiStreamEvent,
+    data: unknown,
+  ) {
+    if (response.writableEnded) return;
+    // JSON keeps the line breaks of the content out of the event framing
+    response.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  /**
+   * List the templates available to aiGeneratePost
+   */
+  getAiTemplates(): IResponseType<
+    (Omit<IAIPostTemplateType, 'prompts'> & { template: AiPostTemplate })[]
+  > {
+    return {
+      message: 'Get AI templates successfully',
+      data: Object.entries(POST_AI_TEMPLATES).map(
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        ([template, { prompts, ...definition }]) => ({
+          template: template as AiPostTemplate,
+          ...definition,
+        }),
+      ),
+      statusCode: 200,
+      date: new Date(),
+    };
+  }
+
+  /**
+   * Render the prompts of a template with validated variables
+   * The free text prompt of the user is sent last
+   */
+  private getAiPostMessages({
+    prompt,
+    template = AiPostTemplate.BLOG,
+    variables = {},
+  }: GeneratePostDto): IAIMessagePromptType[] {
+    const definition = POST_AI_TEMPLATES[template];
+
+    if (definition.requiresPrompt && !prompt) {
+      throw new BadRequestException(
+        `Prompt is required for the ${template} template`,
+      );
+    }
+
+    const unknownVariables = Object.keys(variables).filter(
+      (name) =>
+        !definition.variables.some((variable) => variable.name === name),
+    );
+    if (unknownVariables.length > 0) {
+      throw new BadRequestException(
+        `Unknown template variables: ${unknownVariables.join(', ')}`,
+      );
+    }
+
+    const context = Object.fromEntries(
+      definition.variables.map(
+        ({ name, type, required, default: defaultValue, min = 0, max }) => {
+          const value = variables[name] ?? defaultValue;
+
+          if (value === undefined || value === '') {
+            if (required) {
+              throw new BadRequestException(`Variable ${name} is required`);
+            }
+            return [name, ''];
+          }
+
+          if (type === 'number') {
+            const numberValue = Number(value);
+            if (
+              !Number.isFinite(numberValue) ||
+              numberValue < min ||
+              numberValue > max
+            ) {
+              throw new BadRequestException(
+                `Variable ${name} must be a number between ${min} and ${max}`,
+              );
+            }
+            return [name, numberValue];
+          }
+
+          if (typeof value !== 'string' || value.trim().length > max) {
+            throw new BadRequestException(
+              `Variable ${name} must be a string of at most ${max} characters`,
+            );
+          }
+          return [name, value.trim()];
+        },
+      ),
+    );
+
+    // Prompts are plain text for the model, not HTML
+    const render = (text: string) =>
+      handlebars.compile(text, { noEscape: true, strict: true })(context);
+
+    const messages: IAIMessagePromptType[] = definition.prompts.map(
+      ({ role, content }) => ({
+        role,
+        content:
+          typeof content === 'string'
+            ? render(content)
+            : content.map((part) => ({ ...part, text: render(part.text) })),
+      }),
+    );
+
+    return prompt ? [...messages, { role: 'user', content: prompt }] : messages;
+  }
+
   async updatePost({
     postId,
     data,
@@ -554,11 +1096,24 @@ export class PostService {
       if (checkPost.authorId !== userId)
         throw new ForbiddenException('Unauthorized');
 
-      const updatedPost = await this.prisma.post.update({
+      const { content } = await this.prisma.post.update({
         where: {
           id: postId,
         },
         data,
+        select: { content: true },
+      });
+
+      await this.hashtagService.syncPostHashtags({ postId, content });
+      await this.mentionService.syncMentions({
+        content,
+        authorId: userId,
+        postId,
+      });
+      await this.invalidateFeed(userId);
+
+      const updatedPost = await this.prisma.post.findUnique({
+        where: { id: postId },
         select: postDataSelect,
       });
 
@@ -594,14 +1149,29 @@ export class PostService {
           data[key] = undefined;
         }
       });
-      const updatedPost = await this.prisma.post.update({
+      const post = await this.prisma.post.update({
         where: {
           id: postId,
         },
         data,
+        select: { content: true, authorId: true },
+      });
+      if (!post) throw new NotFoundException('Post not found');
+
+      await this.hashtagService.syncPostHashtags({
+        postId,
+        content: post.content,
+      });
+      await this.mentionService.syncMentions({
+        content: post.content,
+        authorId: post.authorId,
+        postId,
+      });
+
+      const updatedPost = await this.prisma.post.findUnique({
+        where: { id: postId },
         select: postDataSelect,
       });
-      if (!updatedPost) throw new NotFoundException('Post not found');
 
       return {
         message: 'Post updated successfully',
@@ -627,7 +1197,7 @@ export class PostService {
     // Find the post and get its author ID
     const post = await this.prisma.post.findUnique({
       where: { id: postId },
-      select: { authorId: true },
+      select: { authorId: true, media: { select: { path: true } } },
     });
 
     if (!post) {
@@ -660,6 +1230,9 @@ export class PostService {
         }),
       ]);
 
+      await this.removeMediaFiles(post.media.map(({ path }) => path));
+      await this.invalidateFeed(userId);
+
       return {
         message: 'Post deleted successfully',
         data: deletedPost,
@@ -680,6 +1253,9 @@ export class PostService {
       }),
     ]);
 
+    await this.removeMediaFiles(post.media.map(({ path }) => path));
+    await this.invalidateFeed(post.authorId);
+
     return {
       message: 'Post deleted successfully',
       data: deletedPost,
@@ -688,6 +1264,19 @@ export class PostService {
     };
   }
 
+  /**
+   * Remove post media objects from the storage
+   * Failures are only logged, the database rows are already gone
+   * @param paths - Storage paths of the media
+   */
+  private async removeMediaFiles(paths: string[]) {
+    try {
+      await this.storage.deleteFiles(paths);
+    } catch (error) {
+      this.logger.error(`Failed to remove post media: ${error.message}`);
+    }
+  }
+
   async deletePost({ postId, decodedAccessToken }) {
     try {
       return await this.handleDeletePost(postId, decodedAccessToken.userId);
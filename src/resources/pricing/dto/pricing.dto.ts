@@ -0,0 +1,40 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { PricingFeature } from 'src/global/enums.global';
+
+export class SetPricingRuleDto {
+  @ApiProperty({ enum: PricingFeature })
+  @IsEnum(PricingFeature)
+  feature: PricingFeature;
+
+  @ApiPropertyOptional({
+    default: '',
+    description: 'AI model the price applies to, every model when empty',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  model?: string;
+
+  @ApiProperty({ default: 1 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  amount: number;
+}
+
+export class SetPricingDiscountDto {
+  @ApiProperty({ default: 0, description: 'Percentage taken off, 0 to 100' })
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  percent: number;
+}
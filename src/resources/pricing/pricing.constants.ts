@@ -0,0 +1,23 @@
+import { PricingFeature } from 'src/global/enums.global';
+
+export const PRICING_CONSTANTS = {
+  CACHE_KEY: 'pricing:table',
+  CACHE_TTL: 10 * 60 * 1000, // 10 minutes
+};
+
+// Rewards are credited to the user and never discounted
+export const PRICING_FEATURES: Record<
+  PricingFeature,
+  { description: string; defaultAmount: number; isReward: boolean }
+> = {
+  [PricingFeature.AI_GENERATE_POST]: {
+    description: 'Generate a post with AI',
+    defaultAmount: 1,
+    isReward: false,
+  },
+  [PricingFeature.POST_REWARD]: {
+    description: 'Reward for creating a post',
+    defaultAmount: 0.2,
+    isReward: true,
+  },
+};
@@ -0,0 +1,65 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { PricingService } from './pricing.service';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { RoleGuard } from 'src/guards/role.guard';
+import {
+  deletePricingRuleDecorator,
+  getPricingTableDecorator,
+  removePricingDiscountDecorator,
+  setPricingDiscountDecorator,
+  setPricingRuleDecorator,
+} from 'src/resources/pricing/pricing.decorators';
+import {
+  SetPricingDiscountDto,
+  SetPricingRuleDto,
+} from 'src/resources/pricing/dto/pricing.dto';
+
+@ApiTags('Pricing Management')
+@ApiBearerAuth()
+@UseGuards(AuthGuard('jwt'), RoleGuard)
+@Controller('pricing')
+export class PricingController {
+  constructor(private readonly pricingService: PricingService) {}
+
+  @Get('/')
+  @getPricingTableDecorator()
+  getPricingTable() {
+    return this.pricingService.getPricingTable();
+  }
+
+  @Put('/rule')
+  @setPricingRuleDecorator()
+  setPricingRule(@Body() data: SetPricingRuleDto) {
+    return this.pricingService.setPricingRule(data);
+  }
+
+  @Delete('/rule/:ruleId')
+  @deletePricingRuleDecorator()
+  deletePricingRule(@Param('ruleId') ruleId: string) {
+    return this.pricingService.deletePricingRule(ruleId);
+  }
+
+  @Put('/discount/:userTypeId')
+  @setPricingDiscountDecorator()
+  setPricingDiscount(
+    @Param('userTypeId') userTypeId: string,
+    @Body() data: SetPricingDiscountDto,
+  ) {
+    return this.pricingService.setPricingDiscount({ userTypeId, data });
+  }
+
+  @Delete('/discount/:userTypeId')
+  @removePricingDiscountDecorator()
+  removePricingDiscount(@Param('userTypeId') userTypeId: string) {
+    return this.pricingService.removePricingDiscount(userTypeId);
+  }
+}
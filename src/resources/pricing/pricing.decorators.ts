@@ -0,0 +1,56 @@
+import { applyDecorators } from '@nestjs/common';
+import { ApiOperation, ApiParam } from '@nestjs/swagger';
+import { Roles } from 'src/decorators/roles.decorator';
+import { RolesLevel } from 'src/global/enums.global';
+
+export const getPricingTableDecorator = () =>
+  applyDecorators(
+    Roles([RolesLevel.ADMIN]),
+    ApiOperation({
+      summary: 'Get pricing table (Admin)',
+      description:
+        'List the price of every feature and model, and the discounts of user types',
+    }),
+  );
+
+export const setPricingRuleDecorator = () =>
+  applyDecorators(
+    Roles([RolesLevel.ADMIN]),
+    ApiOperation({
+      summary: 'Set pricing rule (Admin)',
+      description:
+        'Create or update the price of a feature, for every model or for a single model',
+    }),
+  );
+
+export const deletePricingRuleDecorator = () =>
+  applyDecorators(
+    Roles([RolesLevel.ADMIN]),
+    ApiOperation({
+      summary: 'Delete pricing rule (Admin)',
+      description:
+        'Delete the price of a single model, the feature falls back to its default price',
+    }),
+    ApiParam({ name: 'ruleId', description: 'Pricing rule ID' }),
+  );
+
+export const setPricingDiscountDecorator = () =>
+  applyDecorators(
+    Roles([RolesLevel.ADMIN]),
+    ApiOperation({
+      summary: 'Set pricing discount (Admin)',
+      description:
+        'Set the percentage taken off the cost of paid features for a user type',
+    }),
+    ApiParam({ name: 'userTypeId', description: 'User type ID' }),
+  );
+
+export const removePricingDiscountDecorator = () =>
+  applyDecorators(
+    Roles([RolesLevel.ADMIN]),
+    ApiOperation({
+      summary: 'Remove pricing discount (Admin)',
+      description: 'Remove the discount of a user type',
+    }),
+    ApiParam({ name: 'userTypeId', description: 'User type ID' }),
+  );
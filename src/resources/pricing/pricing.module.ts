@@ -0,0 +1,12 @@
+import { Global, Module } from '@nestjs/common';
+import { PricingService } from './pricing.service';
+import { PricingController } from './pricing.controller';
+
+// Global so any module can use ChargeCredits() without importing it
+@Global()
+@Module({
+  controllers: [PricingController],
+  providers: [PricingService],
+  exports: [PricingService],
+})
+export class PricingModule {}
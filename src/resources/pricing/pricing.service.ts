@@ -0,0 +1,273 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { Decimal } from '@prisma/client/runtime/library';
+import { PricingFeature } from 'src/global/enums.global';
+import { handleDefaultError } from 'src/global/functions.global';
+import { IPriceType, IResponseType } from 'src/interfaces/interfaces.global';
+import {
+  pricingDiscountDataSelect,
+  PricingDiscountDataType,
+  pricingRuleDataSelect,
+  PricingRuleDataType,
+} from 'src/libs/prisma-types';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  SetPricingDiscountDto,
+  SetPricingRuleDto,
+} from 'src/resources/pricing/dto/pricing.dto';
+import {
+  PRICING_CONSTANTS,
+  PRICING_FEATURES,
+} from 'src/resources/pricing/pricing.constants';
+
+interface ICachedPricingTableType {
+  rules: { feature: string; model: string; amount: string }[];
+  discounts: { userTypeId: string; percent: number }[];
+}
+
+@Injectable()
+export class PricingService implements OnModuleInit {
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(CACHE_MANAGER) private cacheManager: Cache,
+  ) {}
+
+  /**
+   * Make sure every feature known by the code has a default price
+   */
+  async onModuleInit() {
+    await this.prisma.pricingRule.createMany({
+      data: Object.values(PricingFeature).map((feature) => ({
+        feature,
+        amount: PRICING_FEATURES[feature].defaultAmount,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * Resolve the price of a feature for a user
+   * The rule of the model wins over the default rule of the feature
+   * @param feature - Paid feature or reward
+   * @param model - Optional AI model used by the feature
+   * @param userId - Optional user paying, used for the discount of the user type
+   */
+  async getPrice({
+    feature,
+    model = '',
+    userId,
+  }: {
+    feature: PricingFeature;
+    model?: string;
+    userId?: string;
+  }): Promise<IPriceType> {
+    const { rules, discounts } = await this.getCachedPricingTable();
+
+    const rule =
+      rules.find((rule) => rule.feature === feature && rule.model === model) ||
+      rules.find((rule) => rule.feature === feature && rule.model === '');
+    const basePrice = new Decimal(
+      rule?.amount ?? PRICING_FEATURES[feature].defaultAmount,
+    );
+
+    let discountPercent = 0;
+    if (userId && !PRICING_FEATURES[feature].isReward && discounts.length) {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { type: true },
+      });
+      discountPercent =
+        discounts.find(({ userTypeId }) => userTypeId === user?.type)
+          ?.percent ?? 0;
+    }
+
+    return {
+      feature,
+      model,
+      basePrice,
+      discountPercent,
+      price: basePrice
+        .times(100 - discountPercent)
+        .dividedBy(100)
+        .toDecimalPlaces(2),
+    };
+  }
+
+  async getPricingTable(): Promise<
+    IResponseType<{
+      rules: PricingRuleDataType[];
+      discounts: PricingDiscountDataType[];
+    }>
+  > {
+    try {
+      const [rules, discounts] = await this.prisma.$transaction([
+        this.prisma.pricingRule.findMany({
+          orderBy: [{ feature: 'asc' }, { model: 'asc' }],
+          select: pricingRuleDataSelect,
+        }),
+        this.prisma.pricingDiscount.findMany({
+          select: pricingDiscountDataSelect,
+        }),
+      ]);
+
+      return {
+        message: 'Get pricing table successfully',
+        data: { rules, discounts },
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Create or update the price of a feature, optionally for a single model
+   */
+  async setPricingRule(
+    data: SetPricingRuleDto,
+  ): Promise<IResponseType<PricingRuleDataType>> {
+    try {
+      const model = data.model?.trim() || '';
+
+      const rule = await this.prisma.pricingRule.upsert({
+        where: { feature_model: { feature: data.feature, model } },
+        create: { feature: data.feature, model, amount: data.amount },
+        update: { amount: data.amount },
+        select: pricingRuleDataSelect,
+      });
+
+      await this.invalidatePricingTable();
+
+      return {
+        message: 'Set pricing rule successfully',
+        data: rule,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Delete a model price, the default price of a feature can only be updated
+   */
+  async deletePricingRule(ruleId: string): Promise<IResponseType> {
+    try {
+      const rule = await this.prisma.pricingRule.findUnique({
+        where: { id: ruleId },
+        select: { model: true },
+      });
+      if (!rule) throw new NotFoundException('Pricing rule not found');
+      if (!rule.model) {
+        throw new BadRequestException(
+          'The default price of a feature cannot be deleted',
+        );
+      }
+
+      await this.prisma.pricingRule.delete({ where: { id: ruleId } });
+      await this.invalidatePricingTable();
+
+      return {
+        message: 'Delete pricing rule successfully',
+        data: null,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  async setPricingDiscount({
+    userTypeId,
+    data,
+  }: {
+    userTypeId: string;
+    data: SetPricingDiscountDto;
+  }): Promise<IResponseType<PricingDiscountDataType>> {
+    try {
+      const userType = await this.prisma.userType.findUnique({
+        where: { id: userTypeId },
+        select: { id: true },
+      });
+      if (!userType) throw new NotFoundException('User type not found');
+
+      const discount = await this.prisma.pricingDiscount.upsert({
+        where: { userTypeId },
+        create: { userTypeId, percent: data.percent },
+        update: { percent: data.percent },
+        select: pricingDiscountDataSelect,
+      });
+
+      await this.invalidatePricingTable();
+
+      return {
+        message: 'Set pricing discount successfully',
+        data: discount,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  async removePricingDiscount(userTypeId: string): Promise<IResponseType> {
+    try {
+      await this.prisma.pricingDiscount.deleteMany({ where: { userTypeId } });
+      await this.invalidatePricingTable();
+
+      return {
+        message: 'Remove pricing discount successfully',
+        data: null,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  //   ----------------- Utils
+  private async getCachedPricingTable(): Promise<ICachedPricingTableType> {
+    const cached = await this.cacheManager.get<ICachedPricingTableType>(
+      PRICING_CONSTANTS.CACHE_KEY,
+    );
+    if (cached) return cached;
+
+    const [rules, discounts] = await this.prisma.$transaction([
+      this.prisma.pricingRule.findMany({
+        select: { feature: true, model: true, amount: true },
+      }),
+      this.prisma.pricingDiscount.findMany({
+        select: { userTypeId: true, percent: true },
+      }),
+    ]);
+
+    // Decimals are cached as strings
+    const table: ICachedPricingTableType = {
+      rules: rules.map((rule) => ({ ...rule, amount: rule.amount.toString() })),
+      discounts,
+    };
+    await this.cacheManager.set(
+      PRICING_CONSTANTS.CACHE_KEY,
+      table,
+      PRICING_CONSTANTS.CACHE_TTL,
+    );
+
+    return table;
+  }
+
+  private async invalidatePricingTable() {
+    await this.cacheManager.del(PRICING_CONSTANTS.CACHE_KEY);
+  }
+}
@@ -0,0 +1,66 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ReportAction, ReportReason, ReportTargetType } from '@prisma/client';
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class CreateReportDto {
+  @ApiProperty({ enum: ReportTargetType })
+  @IsEnum(ReportTargetType)
+  targetType: ReportTargetType;
+
+  @ApiProperty({ description: 'ID of the reported post, comment or user' })
+  @IsUUID()
+  @IsNotEmpty()
+  targetId: string;
+
+  @ApiProperty({ enum: ReportReason })
+  @IsEnum(ReportReason)
+  reason: ReportReason;
+
+  @ApiPropertyOptional({ default: '' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  details?: string;
+}
+
+export class ResolveReportDto {
+  @ApiProperty({
+    enum: ReportAction,
+    description:
+      'DELETE_CONTENT deletes the reported post or comment, BAN_USER bans the reported user or the author of the content',
+  })
+  @IsEnum(ReportAction)
+  action: ReportAction;
+
+  @ApiPropertyOptional({
+    description:
+      'Suspension length in hours for BAN_USER, permanent ban when omitted',
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  banDurationHours?: number;
+
+  @ApiPropertyOptional({ default: '' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  note?: string;
+}
+
+export class DismissReportDto {
+  @ApiPropertyOptional({ default: '' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  note?: string;
+}
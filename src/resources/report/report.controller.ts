@@ -0,0 +1,120 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ReportService } from './report.service';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { ReportStatus, ReportTargetType } from '@prisma/client';
+import { RoleGuard } from 'src/guards/role.guard';
+import { DecodedAccessToken } from 'src/decorators/decodedAccessToken.decorator';
+import { IpAddress } from 'src/decorators/ip.decorator';
+import { UserAgent } from 'src/decorators/utils.decorator';
+import { IDecodedAccecssTokenType } from 'src/interfaces/interfaces.global';
+import { normalizePaginationParams } from 'src/utils/utils';
+import {
+  CreateReportDto,
+  DismissReportDto,
+  ResolveReportDto,
+} from 'src/resources/report/dto/report.dto';
+import {
+  claimReportDecorator,
+  createReportDecorator,
+  dismissReportDecorator,
+  getReportQueueDecorator,
+  resolveReportDecorator,
+} from 'src/resources/report/report.decorators';
+
+@ApiTags('Report')
+@ApiBearerAuth()
+@UseGuards(AuthGuard('jwt'), RoleGuard)
+@Controller('report')
+export class ReportController {
+  constructor(private readonly reportService: ReportService) {}
+
+  @Post('/')
+  @createReportDecorator()
+  createReport(
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Body() data: CreateReportDto,
+  ) {
+    return this.reportService.createReport({
+      reporterId: decodedAccessToken.userId,
+      data,
+    });
+  }
+
+  @Get('/queue')
+  @getReportQueueDecorator()
+  getReportQueue(
+    @Query('page') _page: string,
+    @Query('limit') _limit: string,
+    @Query('status') status: ReportStatus,
+    @Query('targetType') targetType: ReportTargetType,
+    @Query('assigneeId') assigneeId: string,
+  ) {
+    const { limit, page } = normalizePaginationParams({
+      limit: +_limit,
+      page: +_page,
+    });
+    return this.reportService.getReportQueue({
+      status: Object.values(ReportStatus).includes(status) ? status : undefined,
+      targetType: Object.values(ReportTargetType).includes(targetType)
+        ? targetType
+        : undefined,
+      assigneeId,
+      limit,
+      page,
+    });
+  }
+
+  @Put('/:reportId/claim')
+  @claimReportDecorator()
+  claimReport(
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Param('reportId') reportId: string,
+  ) {
+    return this.reportService.claimReport({
+      reportId,
+      moderatorId: decodedAccessToken.userId,
+    });
+  }
+
+  @Put('/:reportId/resolve')
+  @resolveReportDecorator()
+  resolveReport(
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Param('reportId') reportId: string,
+    @Body() data: ResolveReportDto,
+    @IpAddress() ipAddress: string,
+    @UserAgent() userAgent: string,
+  ) {
+    return this.reportService.resolveReport({
+      reportId,
+      moderatorId: decodedAccessToken.userId,
+      data,
+      ipAddress,
+      userAgent,
+    });
+  }
+
+  @Put('/:reportId/dismiss')
+  @dismissReportDecorator()
+  dismissReport(
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Param('reportId') reportId: string,
+    @Body() data: DismissReportDto,
+  ) {
+    return this.reportService.dismissReport({
+      reportId,
+      moderatorId: decodedAccessToken.userId,
+      data,
+    });
+  }
+}
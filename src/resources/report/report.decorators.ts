@@ -0,0 +1,101 @@
+import { applyDecorators, UseGuards } from '@nestjs/common';
+import { ApiHeader, ApiOperation, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { ReportStatus, ReportTargetType } from '@prisma/client';
+import { ApiQueryLimitAndPage } from 'src/decorators/pagination.decorators';
+import { Roles } from 'src/decorators/roles.decorator';
+import { RolesLevel } from 'src/global/enums.global';
+import { JwtTokenVerifyGuard } from 'src/guards/jwt-token-verify.guard';
+
+export const createReportDecorator = () =>
+  applyDecorators(
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Report content',
+      description: 'Report an abusive post, comment or user to the moderators',
+    }),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+    }),
+  );
+
+export const getReportQueueDecorator = () =>
+  applyDecorators(
+    Roles([RolesLevel.MANAGER]),
+    ApiOperation({
+      summary: 'Get moderation queue (Manager)',
+      description:
+        'Retrieve a paginated list of reports, oldest first. Open reports (pending and in review) by default',
+    }),
+    ApiQueryLimitAndPage(),
+    ApiQuery({
+      name: 'status',
+      required: false,
+      enum: ReportStatus,
+    }),
+    ApiQuery({
+      name: 'targetType',
+      required: false,
+      enum: ReportTargetType,
+    }),
+    ApiQuery({
+      name: 'assigneeId',
+      required: false,
+      description: 'Only reports claimed by this moderator',
+    }),
+  );
+
+export const claimReportDecorator = () =>
+  applyDecorators(
+    Roles([RolesLevel.MANAGER]),
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Claim report (Manager)',
+      description: 'Assign an open report to yourself and mark it in review',
+    }),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+    }),
+    ApiParam({
+      name: 'reportId',
+      description: 'ID of the report',
+    }),
+  );
+
+export const resolveReportDecorator = () =>
+  applyDecorators(
+    Roles([RolesLevel.MANAGER]),
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Resolve report (Manager)',
+      description:
+        'Resolve a report and every open report on the same target, optionally deleting the content or banning the user. Deleting requires post.delete.any or comment.delete.any, banning requires user.ban',
+    }),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+    }),
+    ApiParam({
+      name: 'reportId',
+      description: 'ID of the report',
+    }),
+  );
+
+export const dismissReportDecorator = () =>
+  applyDecorators(
+    Roles([RolesLevel.MANAGER]),
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Dismiss report (Manager)',
+      description: 'Close a report without taking any action',
+    }),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+    }),
+    ApiParam({
+      name: 'reportId',
+      description: 'ID of the report',
+    }),
+  );
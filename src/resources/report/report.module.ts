@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ReportService } from './report.service';
+import { ReportController } from './report.controller';
+import { PostModule } from 'src/resources/post/post.module';
+import { PostCommentModule } from 'src/resources/post-comment/post-comment.module';
+import { UserModule } from 'src/resources/user/user.module';
+
+@Module({
+  imports: [PostModule, PostCommentModule, UserModule],
+  controllers: [ReportController],
+  providers: [ReportService],
+})
+export class ReportModule {}
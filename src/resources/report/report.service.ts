@@ -0,0 +1,534 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  AuditAction,
+  AuditTargetType,
+  Prisma,
+  ReportAction,
+  ReportReason,
+  ReportStatus,
+  ReportTargetType,
+} from '@prisma/client';
+import { PermissionKey } from 'src/global/enums.global';
+import { handleDefaultError } from 'src/global/functions.global';
+import {
+  IPaginationResponseType,
+  IResponseType,
+} from 'src/interfaces/interfaces.global';
+import { reportDataSelect, ReportDataType } from 'src/libs/prisma-types';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AuditLogService } from 'src/resources/audit-log/audit-log.service';
+import { PermissionService } from 'src/resources/permission/permission.service';
+import { PostCommentService } from 'src/resources/post-comment/post-comment.service';
+import { PostService } from 'src/resources/post/post.service';
+import {
+  CreateReportDto,
+  DismissReportDto,
+  ResolveReportDto,
+} from 'src/resources/report/dto/report.dto';
+import { UserService } from 'src/resources/user/user.service';
+
+const OPEN_REPORT_STATUSES: ReportStatus[] = [
+  ReportStatus.PENDING,
+  ReportStatus.IN_REVIEW,
+];
+
+@Injectable()
+export class ReportService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly postService: PostService,
+    private readonly postCommentService: PostCommentService,
+    private readonly userService: UserService,
+    private readonly permissionService: PermissionService,
+    private readonly auditLogService: AuditLogService,
+  ) {}
+
+  /**
+   * Report a post, a comment or a user
+   * @param reporterId - User who files the report
+   * @param data - Target and reason of the report
+   * @returns The created report
+   */
+  async createReport({
+    reporterId,
+    data,
+  }: {
+    reporterId: string;
+    data: CreateReportDto;
+  }): Promise<IResponseType<ReportDataType>> {
+    try {
+      const { targetType, targetId, reason, details } = data;
+
+      const target = await this.resolveTarget({ targetType, targetId });
+
+      if (target.targetUserId === reporterId) {
+        throw new BadRequestException('You cannot report yourself');
+      }
+
+      // One open report per reporter and target is enough
+      const existingReport = await this.prisma.report.findFirst({
+        where: {
+          reporterId,
+          status: { in: OPEN_REPORT_STATUSES },
+          ...this.getTargetWhere({ targetType, ...target }),
+        },
+        select: { id: true },
+      });
+      if (existingReport) {
+        throw new BadRequestException('You have already reported this');
+      }
+
+      const report = await this.prisma.report.create({
+        data: {
+          reporterId,
+          targetType,
+          reason,
+          details,
+          ...target,
+        },
+        select: reportDataSelect,
+      });
+
+      return {
+        message: 'Report created successfully',
+        data: report,
+        statusCode: 201,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Moderation queue, oldest reports first
+   * @param status - Filter by status, open reports (pending and in review) by default
+   * @param targetType - Optional filter by target type
+   * @param assigneeId - Optional filter by assigned moderator
+   */
+  async getReportQueue({
+    status,
+    targetType,
+    assigneeId,
+    limit,
+    page,
+  }: {
+    status?: ReportStatus;
+    targetType?: ReportTargetType;
+    assigneeId?: string;
+    limit: number;
+    page: number;
+  }): Promise<IPaginationResponseType<ReportDataType>> {
+    try {
+      const whereQuery: Prisma.ReportWhereInput = {
+        status: status || { in: OPEN_REPORT_STATUSES },
+        targetType: targetType || undefined,
+        assigneeId: assigneeId || undefined,
+      };
+
+      const [totalCount, reports] = await this.prisma.$transaction([
+        this.prisma.report.count({ where: whereQuery }),
+        this.prisma.report.findMany({
+          where: whereQuery,
+          take: limit,
+          skip: (page - 1) * limit,
+          orderBy: { createdAt: 'asc' },
+          select: reportDataSelect,
+        }),
+      ]);
+
+      const totalPage = Math.ceil(totalCount / limit);
+      const hasNextPage = page * limit < totalCount;
+      const hasPreviousPage = !!totalCount && page > 1;
+
+      return {
+        message: 'Get reports successfully',
+        data: {
+          items: reports,
+          totalCount,
+          totalPage,
+          currentPage: page,
+          pageSize: limit,
+          hasNextPage,
+          hasPreviousPage,
+        },
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Assign an open report to the moderator reviewing it
+   * @param reportId - Report to claim
+   * @param moderatorId - Moderator claiming the report
+   */
+  async claimReport({
+    reportId,
+    moderatorId,
+  }: {
+    reportId: string;
+    moderatorId: string;
+  }): Promise<IResponseType<ReportDataType>> {
+    try {
+      await this.validateOpenReport({ reportId, moderatorId });
+
+      const report = await this.prisma.report.update({
+        where: { id: reportId },
+        data: {
+          status: ReportStatus.IN_REVIEW,
+          assigneeId: moderatorId,
+          claimedAt: new Date(),
+        },
+        select: reportDataSelect,
+      });
+
+      return {
+        message: 'Claim report successfully',
+        data: report,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Resolve a report, optionally deleting the content or banning the user
+   * Every open report on the same target is resolved with it
+   * @param reportId - Report to resolve
+   * @param moderatorId - Moderator resolving the report
+   * @param data - Action to apply and an optional note
+   * @param ipAddress - IP address recorded in the audit log of the action
+   * @param userAgent - User agent recorded in the audit log of the action
+   */
+  async resolveReport({
+    reportId,
+    moderatorId,
+    data,
+    ipAddress,
+    userAgent,
+  }: {
+    reportId: string;
+    moderatorId: string;
+    data: ResolveReportDto;
+    ipAddress?: string;
+    userAgent?: string;
+  }): Promise<IResponseType<ReportDataType>> {
+    try {
+      const report = await this.validateOpenReport({ reportId, moderatorId });
+
+      // Read the related reports before the action, deleting the content unlinks them
+      const relatedReports = await this.prisma.report.findMany({
+        where: {
+          status: { in: OPEN_REPORT_STATUSES },
+          ...this.getTargetWhere(report),
+        },
+        select: { id: true },
+      });
+
+      await this.applyAction({
+        report,
+        moderatorId,
+        data,
+        ipAddress,
+        userAgent,
+      });
+
+      await this.prisma.report.updateMany({
+        where: {
+          id: { in: [reportId, ...relatedReports.map(({ id }) => id)] },
+        },
+        data: {
+          status: ReportStatus.RESOLVED,
+          action: data.action,
+          resolutionNote: data.note,
+          resolvedById: moderatorId,
+          resolvedAt: new Date(),
+        },
+      });
+
+      const resolvedReport = await this.prisma.report.findUnique({
+        where: { id: reportId },
+        select: reportDataSelect,
+      });
+
+      return {
+        message: 'Resolve report successfully',
+        data: resolvedReport,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  async dismissReport({
+    reportId,
+    moderatorId,
+    data,
+  }: {
+    reportId: string;
+    moderatorId: string;
+    data: DismissReportDto;
+  }): Promise<IResponseType<ReportDataType>> {
+    try {
+      await this.validateOpenReport({ reportId, moderatorId });
+
+      const report = await this.prisma.report.update({
+        where: { id: reportId },
+        data: {
+          status: ReportStatus.DISMISSED,
+          action: ReportAction.NONE,
+          resolutionNote: data.note,
+          resolvedById: moderatorId,
+          resolvedAt: new Date(),
+        },
+        select: reportDataSelect,
+      });
+
+      return {
+        message: 'Dismiss report successfully',
+        data: report,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  //   ----------------- Utils
+  /**
+   * Find the reported entity and the user behind it
+   */
+  private async resolveTarget({
+    targetType,
+    targetId,
+  }: {
+    targetType: ReportTargetType;
+    targetId: string;
+  }): Promise<{
+    postId?: string;
+    commentId?: string;
+    targetUserId: string;
+  }> {
+    switch (targetType) {
+      case ReportTargetType.POST: {
+        const post = await this.prisma.post.findUnique({
+          where: { id: targetId },
+          select: { id: true, authorId: true },
+        });
+        if (!post) throw new NotFoundException('Post not found');
+        return { postId: post.id, targetUserId: post.authorId };
+      }
+      case ReportTargetType.COMMENT: {
+        const comment = await this.prisma.postComment.findUnique({
+          where: { id: targetId },
+          select: { id: true, postId: true, authorId: true },
+        });
+        if (!comment) throw new NotFoundException('Comment not found');
+        return {
+          postId: comment.postId,
+          commentId: comment.id,
+          targetUserId: comment.authorId,
+        };
+      }
+      case ReportTargetType.USER: {
+        const user = await this.prisma.user.findUnique({
+          where: { id: targetId },
+          select: { id: true },
+        });
+        if (!user) throw new NotFoundException('User not found');
+        return { targetUserId: user.id };
+      }
+    }
+  }
+
+  private getTargetWhere({
+    targetType,
+    postId,
+    commentId,
+    targetUserId,
+  }: {
+    targetType: ReportTargetType;
+    postId?: string | null;
+    commentId?: string | null;
+    targetUserId?: string | null;
+  }): Prisma.ReportWhereInput {
+    switch (targetType) {
+      case ReportTargetType.POST:
+        return { targetType, postId };
+      case ReportTargetType.COMMENT:
+        return { targetType, commentId };
+      case ReportTargetType.USER:
+        return { targetType, targetUserId };
+    }
+  }
+
+  private async validateOpenReport({
+    reportId,
+    moderatorId,
+  }: {
+    reportId: string;
+    moderatorId: string;
+  }) {
+    if (!reportId) throw new BadRequestException('Report id is required');
+
+    const report = await this.prisma.report.findUnique({
+      where: { id: reportId },
+      select: {
+        id: true,
+        status: true,
+        assigneeId: true,
+        reason: true,
+        targetType: true,
+        postId: true,
+        commentId: true,
+        targetUserId: true,
+      },
+    });
+    if (!report) throw new NotFoundException('Report not found');
+
+    if (!OPEN_REPORT_STATUSES.includes(report.status)) {
+      throw new BadRequestException('Report is already closed');
+    }
+
+    if (report.assigneeId && report.assigneeId !== moderatorId) {
+      throw new ForbiddenException(
+        'Report is already claimed by another moderator',
+      );
+    }
+
+    return report;
+  }
+
+  /**
+   * Run the moderation action through the existing admin service methods
+   * The moderator needs the permission the matching admin route requires, and the action is audited like it
+   */
+  private async applyAction({
+    report,
+    moderatorId,
+    data,
+    ipAddress,
+    userAgent,
+  }: {
+    report: {
+      reason: ReportReason;
+      targetType: ReportTargetType;
+      postId: string | null;
+      commentId: string | null;
+      targetUserId: string | null;
+    };
+    moderatorId: string;
+    data: ResolveReportDto;
+    ipAddress?: string;
+    userAgent?: string;
+  }) {
+    let audit: {
+      permission: PermissionKey;
+      action: AuditAction;
+      targetType: AuditTargetType;
+      targetId: string;
+    };
+
+    switch (data.action) {
+      case ReportAction.DELETE_CONTENT:
+        if (report.targetType === ReportTargetType.USER) {
+          throw new BadRequestException(
+            'A user report has no content to delete',
+          );
+        }
+        if (report.targetType === ReportTargetType.COMMENT) {
+          if (!report.commentId) {
+            throw new BadRequestException('Reported comment no longer exists');
+          }
+          audit = {
+            permission: PermissionKey.COMMENT_DELETE_ANY,
+            action: AuditAction.COMMENT_DELETE,
+            targetType: AuditTargetType.COMMENT,
+            targetId: report.commentId,
+          };
+          break;
+        }
+        if (!report.postId) {
+          throw new BadRequestException('Reported post no longer exists');
+        }
+        audit = {
+          permission: PermissionKey.POST_DELETE_ANY,
+          action: AuditAction.POST_DELETE,
+          targetType: AuditTargetType.POST,
+          targetId: report.postId,
+        };
+        break;
+      case ReportAction.BAN_USER:
+        if (!report.targetUserId) {
+          throw new BadRequestException('Reported user no longer exists');
+        }
+        audit = {
+          permission: PermissionKey.USER_BAN,
+          action: AuditAction.USER_BAN,
+          targetType: AuditTargetType.USER,
+          targetId: report.targetUserId,
+        };
+        break;
+      case ReportAction.NONE:
+        return;
+    }
+
+    const hasPermission = await this.permissionService.hasPermissions(
+      moderatorId,
+      [audit.permission],
+    );
+    if (!hasPermission) {
+      throw new ForbiddenException('Insufficient permissions');
+    }
+
+    const before = await this.auditLogService.getSnapshot({
+      targetType: audit.targetType,
+      targetId: audit.targetId,
+    });
+
+    switch (audit.action) {
+      case AuditAction.COMMENT_DELETE:
+        await this.postCommentService.deletePostCommentByAdmin({
+          commentId: audit.targetId,
+        });
+        break;
+      case AuditAction.POST_DELETE:
+        await this.postService.deletePostAsAdmin({ postId: audit.targetId });
+        break;
+      case AuditAction.USER_BAN:
+        await this.userService.banUser(
+          audit.targetId,
+          {
+            isBanned: true,
+            reason: data.note || `Reported for ${report.reason}`,
+            durationHours: data.banDurationHours,
+          },
+          moderatorId,
+        );
+        break;
+    }
+
+    await this.auditLogService.record({
+      actorId: moderatorId,
+      action: audit.action,
+      targetType: audit.targetType,
+      targetId: audit.targetId,
+      before,
+      ipAddress,
+      userAgent,
+    });
+  }
+}
@@ -0,0 +1,116 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ServerMemberRole } from '@prisma/client';
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class CreateServerDto {
+  @ApiProperty({ default: '' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ default: '' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  description?: string;
+
+  @ApiPropertyOptional({ default: '' })
+  @IsString()
+  @IsOptional()
+  icon?: string;
+}
+
+export class UpdateServerDto {
+  @ApiPropertyOptional({ default: '' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ default: '' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  description?: string;
+
+  @ApiPropertyOptional({ default: '' })
+  @IsString()
+  @IsOptional()
+  icon?: string;
+}
+
+export class CreateChannelDto {
+  @ApiProperty({ default: '' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ default: '' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  topic?: string;
+}
+
+export class UpdateChannelDto {
+  @ApiPropertyOptional({ default: '' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ default: '' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  topic?: string;
+
+  @ApiPropertyOptional({ default: 0 })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  position?: number;
+}
+
+export class CreateServerInviteDto {
+  @ApiPropertyOptional({
+    description: 'Maximum number of uses, unlimited if empty',
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  maxUses?: number;
+
+  @ApiPropertyOptional({
+    description: 'Minutes before the invite expires, never if empty',
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  expiresInMinutes?: number;
+}
+
+export class UpdateServerMemberDto {
+  @ApiPropertyOptional({
+    enum: [ServerMemberRole.ADMIN, ServerMemberRole.MEMBER],
+  })
+  @IsEnum([ServerMemberRole.ADMIN, ServerMemberRole.MEMBER])
+  @IsOptional()
+  role?: ServerMemberRole;
+
+  @ApiPropertyOptional({ default: '' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  nickname?: string;
+}
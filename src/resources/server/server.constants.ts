@@ -0,0 +1,4 @@
+export const SERVER_CONSTANTS = {
+  DEFAULT_CHANNEL_NAME: 'general',
+  MAX_CHANNELS_PER_SERVER: 100,
+};
@@ -0,0 +1,258 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ServerService } from './server.service';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { RoleGuard } from 'src/guards/role.guard';
+import { DecodedAccessToken } from 'src/decorators/decodedAccessToken.decorator';
+import { IDecodedAccecssTokenType } from 'src/interfaces/interfaces.global';
+import { normalizePaginationParams } from 'src/utils/utils';
+import {
+  CreateChannelDto,
+  CreateServerDto,
+  CreateServerInviteDto,
+  UpdateChannelDto,
+  UpdateServerDto,
+  UpdateServerMemberDto,
+} from 'src/resources/server/dto/server.dto';
+import {
+  createChannelDecorator,
+  createInviteDecorator,
+  createServerDecorator,
+  deleteChannelDecorator,
+  deleteServerDecorator,
+  getChannelsDecorator,
+  getMembersDecorator,
+  getMyServersDecorator,
+  getServerDecorator,
+  joinServerDecorator,
+  removeMemberDecorator,
+  updateChannelDecorator,
+  updateMemberDecorator,
+  updateServerDecorator,
+} from 'src/resources/server/server.decorators';
+
+@ApiTags('Server Management')
+@ApiBearerAuth()
+@UseGuards(AuthGuard('jwt'), RoleGuard)
+@Controller('server')
+export class ServerController {
+  constructor(private readonly serverService: ServerService) {}
+
+  @Post('/')
+  @createServerDecorator()
+  createServer(
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Body() data: CreateServerDto,
+  ) {
+    return this.serverService.createServer({
+      ownerId: decodedAccessToken.userId,
+      data,
+    });
+  }
+
+  @Get('/')
+  @getMyServersDecorator()
+  getMyServers(
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Query('page') _page: string,
+    @Query('limit') _limit: string,
+  ) {
+    const { limit, page } = normalizePaginationParams({
+      limit: +_limit,
+      page: +_page,
+    });
+    return this.serverService.getMyServers({
+      userId: decodedAccessToken.userId,
+      limit,
+      page,
+    });
+  }
+
+  @Post('/join/:code')
+  @joinServerDecorator()
+  joinServer(
+    @Param('code') code: string,
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+  ) {
+    return this.serverService.joinServer({
+      code,
+      userId: decodedAccessToken.userId,
+    });
+  }
+
+  @Get('/:serverId')
+  @getServerDecorator()
+  getServerById(
+    @Param('serverId') serverId: string,
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+  ) {
+    return this.serverService.getServerById({
+      serverId,
+      userId: decodedAccessToken.userId,
+    });
+  }
+
+  @Put('/:serverId')
+  @updateServerDecorator()
+  updateServer(
+    @Param('serverId') serverId: string,
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Body() data: UpdateServerDto,
+  ) {
+    return this.serverService.updateServer({
+      serverId,
+      userId: decodedAccessToken.userId,
+      data,
+    });
+  }
+
+  @Delete('/:serverId')
+  @deleteServerDecorator()
+  deleteServer(
+    @Param('serverId') serverId: string,
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+  ) {
+    return this.serverService.deleteServer({
+      serverId,
+      userId: decodedAccessToken.userId,
+    });
+  }
+
+  @Post('/:serverId/channels')
+  @createChannelDecorator()
+  createChannel(
+    @Param('serverId') serverId: string,
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Body() data: CreateChannelDto,
+  ) {
+    return this.serverService.createChannel({
+      serverId,
+      userId: decodedAccessToken.userId,
+      data,
+    });
+  }
+
+  @Get('/:serverId/channels')
+  @getChannelsDecorator()
+  getChannels(
+    @Param('serverId') serverId: string,
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Query('page') _page: string,
+    @Query('limit') _limit: string,
+  ) {
+    const { limit, page } = normalizePaginationParams({
+      limit: +_limit,
+      page: +_page,
+    });
+    return this.serverService.getChannels({
+      serverId,
+      userId: decodedAccessToken.userId,
+      limit,
+      page,
+    });
+  }
+
+  @Put('/:serverId/channels/:channelId')
+  @updateChannelDecorator()
+  updateChannel(
+    @Param('serverId') serverId: string,
+    @Param('channelId') channelId: string,
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Body() data: UpdateChannelDto,
+  ) {
+    return this.serverService.updateChannel({
+      serverId,
+      channelId,
+      userId: decodedAccessToken.userId,
+      data,
+    });
+  }
+
+  @Delete('/:serverId/channels/:channelId')
+  @deleteChannelDecorator()
+  deleteChannel(
+    @Param('serverId') serverId: string,
+    @Param('channelId') channelId: string,
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+  ) {
+    return this.serverService.deleteChannel({
+      serverId,
+      channelId,
+      userId: decodedAccessToken.userId,
+    });
+  }
+
+  @Post('/:serverId/invites')
+  @createInviteDecorator()
+  createInvite(
+    @Param('serverId') serverId: string,
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Body() data: CreateServerInviteDto,
+  ) {
+    return this.serverService.createInvite({
+      serverId,
+      userId: decodedAccessToken.userId,
+      data,
+    });
+  }
+
+  @Get('/:serverId/members')
+  @getMembersDecorator()
+  getMembers(
+    @Param('serverId') serverId: string,
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Query('page') _page: string,
+    @Query('limit') _limit: string,
+  ) {
+    const { limit, page } = normalizePaginationParams({
+      limit: +_limit,
+      page: +_page,
+    });
+    return this.serverService.getMembers({
+      serverId,
+      userId: decodedAccessToken.userId,
+      limit,
+      page,
+    });
+  }
+
+  @Put('/:serverId/members/:userId')
+  @updateMemberDecorator()
+  updateMember(
+    @Param('serverId') serverId: string,
+    @Param('userId') memberUserId: string,
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Body() data: UpdateServerMemberDto,
+  ) {
+    return this.serverService.updateMember({
+      serverId,
+      memberUserId,
+      userId: decodedAccessToken.userId,
+      data,
+    });
+  }
+
+  @Delete('/:serverId/members/:userId')
+  @removeMemberDecorator()
+  removeMember(
+    @Param('serverId') serverId: string,
+    @Param('userId') memberUserId: string,
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+  ) {
+    return this.serverService.removeMember({
+      serverId,
+      memberUserId,
+      userId: decodedAccessToken.userId,
+    });
+  }
+}
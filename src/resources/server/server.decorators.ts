@@ -0,0 +1,163 @@
+import { applyDecorators, UseGuards } from '@nestjs/common';
+import { ApiHeader, ApiOperation, ApiParam } from '@nestjs/swagger';
+import { ApiQueryLimitAndPage } from 'src/decorators/pagination.decorators';
+import { JwtTokenVerifyGuard } from 'src/guards/jwt-token-verify.guard';
+
+const serverAuthDecorators = () =>
+  applyDecorators(
+    UseGuards(JwtTokenVerifyGuard),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+    }),
+  );
+
+export const createServerDecorator = () =>
+  applyDecorators(
+    serverAuthDecorators(),
+    ApiOperation({
+      summary: 'Create server',
+      description:
+        'Create a new server owned by the authenticated user with a default text channel',
+    }),
+  );
+
+export const getMyServersDecorator = () =>
+  applyDecorators(
+    serverAuthDecorators(),
+    ApiOperation({
+      summary: 'Get my servers',
+      description:
+        'Retrieve a paginated list of servers the authenticated user is a member of',
+    }),
+    ApiQueryLimitAndPage(),
+  );
+
+export const getServerDecorator = () =>
+  applyDecorators(
+    serverAuthDecorators(),
+    ApiOperation({
+      summary: 'Get server details',
+      description: 'Retrieve a server, members only',
+    }),
+    ApiParam({ name: 'serverId' }),
+  );
+
+export const updateServerDecorator = () =>
+  applyDecorators(
+    serverAuthDecorators(),
+    ApiOperation({
+      summary: 'Update server',
+      description: 'Update server information (Owner only)',
+    }),
+    ApiParam({ name: 'serverId' }),
+  );
+
+export const deleteServerDecorator = () =>
+  applyDecorators(
+    serverAuthDecorators(),
+    ApiOperation({
+      summary: 'Delete server',
+      description: 'Delete a server with its channels and members (Owner only)',
+    }),
+    ApiParam({ name: 'serverId' }),
+  );
+
+export const createChannelDecorator = () =>
+  applyDecorators(
+    serverAuthDecorators(),
+    ApiOperation({
+      summary: 'Create text channel',
+      description: 'Create a text channel in a server (Owner or admin)',
+    }),
+    ApiParam({ name: 'serverId' }),
+  );
+
+export const getChannelsDecorator = () =>
+  applyDecorators(
+    serverAuthDecorators(),
+    ApiOperation({
+      summary: 'Get server channels',
+      description: 'Retrieve a paginated list of channels of a server',
+    }),
+    ApiParam({ name: 'serverId' }),
+    ApiQueryLimitAndPage(),
+  );
+
+export const updateChannelDecorator = () =>
+  applyDecorators(
+    serverAuthDecorators(),
+    ApiOperation({
+      summary: 'Update channel',
+      description: 'Update a channel of a server (Owner or admin)',
+    }),
+    ApiParam({ name: 'serverId' }),
+    ApiParam({ name: 'channelId' }),
+  );
+
+export const deleteChannelDecorator = () =>
+  applyDecorators(
+    serverAuthDecorators(),
+    ApiOperation({
+      summary: 'Delete channel',
+      description: 'Delete a channel of a server (Owner or admin)',
+    }),
+    ApiParam({ name: 'serverId' }),
+    ApiParam({ name: 'channelId' }),
+  );
+
+export const createInviteDecorator = () =>
+  applyDecorators(
+    serverAuthDecorators(),
+    ApiOperation({
+      summary: 'Generate invite code',
+      description:
+        'Generate an invite code with optional max uses and expiry (Owner or admin)',
+    }),
+    ApiParam({ name: 'serverId' }),
+  );
+
+export const joinServerDecorator = () =>
+  applyDecorators(
+    serverAuthDecorators(),
+    ApiOperation({
+      summary: 'Join server',
+      description: 'Join a server using an invite code',
+    }),
+    ApiParam({ name: 'code' }),
+  );
+
+export const getMembersDecorator = () =>
+  applyDecorators(
+    serverAuthDecorators(),
+    ApiOperation({
+      summary: 'Get server members',
+      description: 'Retrieve a paginated list of members of a server',
+    }),
+    ApiParam({ name: 'serverId' }),
+    ApiQueryLimitAndPage(),
+  );
+
+export const updateMemberDecorator = () =>
+  applyDecorators(
+    serverAuthDecorators(),
+    ApiOperation({
+      summary: 'Update server member',
+      description:
+        'Change the nickname (Owner or admin) or the role (Owner only) of a member',
+    }),
+    ApiParam({ name: 'serverId' }),
+    ApiParam({ name: 'userId' }),
+  );
+
+export const removeMemberDecorator = () =>
+  applyDecorators(
+    serverAuthDecorators(),
+    ApiOperation({
+      summary: 'Remove server member',
+      description:
+        'Kick a member (Owner or admin), or leave the server when userId is your own ID',
+    }),
+    ApiParam({ name: 'serverId' }),
+    ApiParam({ name: 'userId' }),
+  );
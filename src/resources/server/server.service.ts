@@ -0,0 +1,754 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, ServerMemberRole } from '@prisma/client';
+import { addMinutes, isPast } from 'date-fns';
+import slugify from 'slugify';
+import {
+  generateInviteCode,
+  handleDefaultError,
+} from 'src/global/functions.global';
+import {
+  IPaginationResponseType,
+  IResponseType,
+} from 'src/interfaces/interfaces.global';
+import {
+  channelDataSelect,
+  ChannelDataType,
+  serverDataSelect,
+  ServerDataType,
+  serverInviteDataSelect,
+  ServerInviteDataType,
+  serverMemberDataSelect,
+  ServerMemberDataType,
+} from 'src/libs/prisma-types';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  CreateChannelDto,
+  CreateServerDto,
+  CreateServerInviteDto,
+  UpdateChannelDto,
+  UpdateServerDto,
+  UpdateServerMemberDto,
+} from 'src/resources/server/dto/server.dto';
+import { SERVER_CONSTANTS } from 'src/resources/server/server.constants';
+
+const MANAGER_ROLES: ServerMemberRole[] = [
+  ServerMemberRole.OWNER,
+  ServerMemberRole.ADMIN,
+];
+
+@Injectable()
+export class ServerService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Create a server owned by the current user with a default text channel
+   * @param ownerId - Current user
+   * @param data - Server information
+   * @returns The created server
+   */
+  async createServer({
+    ownerId,
+    data,
+  }: {
+    ownerId: string;
+    data: CreateServerDto;
+  }): Promise<IResponseType<ServerDataType>> {
+    try {
+      const server = await this.prisma.server.create({
+        data: {
+          ...data,
+          ownerId,
+          memberCount: 1,
+          members: {
+            create: { userId: ownerId, role: ServerMemberRole.OWNER },
+          },
+          channels: {
+            create: { name: SERVER_CONSTANTS.DEFAULT_CHANNEL_NAME },
+          },
+        },
+        select: serverDataSelect,
+      });
+
+      return {
+        message: 'Server created successfully',
+        data: server,
+        statusCode: 201,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Get servers the user is a member of
+   * @param userId - Current user
+   * @param limit - Number of servers per page
+   * @param page - Page number to fetch
+   * @returns Paginated list of servers
+   */
+  async getMyServers({
+    userId,
+    limit = 10,
+    page = 1,
+  }: {
+    userId: string;
+    limit?: number;
+    page?: number;
+  }): Promise<IPaginationResponseType<ServerDataType>> {
+    try {
+      const whereQuery: Prisma.ServerWhereInput = {
+        members: { some: { userId } },
+      };
+
+      const [totalCount, servers] = await this.prisma.$transaction([
+        this.prisma.server.count({ where: whereQuery }),
+        this.prisma.server.findMany({
+          where: whereQuery,
+          skip: (page - 1) * limit,
+          take: limit,
+          orderBy: { createdAt: 'desc' },
+          select: serverDataSelect,
+        }),
+      ]);
+
+      const totalPage = Math.ceil(totalCount / limit);
+      const hasNextPage = page < totalPage;
+      const hasPreviousPage = !!totalCount && page > 1;
+
+      return {
+        message: 'Get servers successfully',
+        data: {
+          currentPage: page,
+          totalCount,
+          totalPage,
+          pageSize: limit,
+          hasNextPage,
+          hasPreviousPage,
+          items: servers,
+        },
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  async getServerById({
+    serverId,
+    userId,
+  }: {
+    serverId: string;
+    userId: string;
+  }): Promise<IResponseType<ServerDataType>> {
+    try {
+      await this.validateMember({ serverId, userId });
+
+      const server = await this.prisma.server.findUnique({
+        where: { id: serverId },
+        select: serverDataSelect,
+      });
+
+      return {
+        message: 'Get server successfully',
+        data: server,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  async updateServer({
+    serverId,
+    userId,
+    data,
+  }: {
+    serverId: string;
+    userId: string;
+    data: UpdateServerDto;
+  }): Promise<IResponseType<ServerDataType>> {
+    try {
+      await this.validateMember({
+        serverId,
+        userId,
+        roles: [ServerMemberRole.OWNER],
+      });
+
+      Object.keys(data).forEach((key) => {
+        if (!data[key]) data[key] = undefined;
+      });
+
+      const updatedServer = await this.prisma.server.update({
+        where: { id: serverId },
+        data,
+        select: serverDataSelect,
+      });
+
+      return {
+        message: 'Server updated successfully',
+        data: updatedServer,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  async deleteServer({
+    serverId,
+    userId,
+  }: {
+    serverId: string;
+    userId: string;
+  }): Promise<IResponseType<ServerDataType>> {
+    try {
+      await this.validateMember({
+        serverId,
+        userId,
+        roles: [ServerMemberRole.OWNER],
+      });
+
+      const deletedServer = await this.prisma.server.delete({
+        where: { id: serverId },
+        select: serverDataSelect,
+      });
+
+      return {
+        message: 'Server deleted successfully',
+        data: deletedServer,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  //   ----------------- Channels
+  async createChannel({
+    serverId,
+    userId,
+    data,
+  }: {
+    serverId: string;
+    userId: string;
+    data: CreateChannelDto;
+  }): Promise<IResponseType<ChannelDataType>> {
+    try {
+      await this.validateMember({ serverId, userId, roles: MANAGER_ROLES });
+
+      const channelCount = await this.prisma.channel.count({
+        where: { serverId },
+      });
+      if (channelCount >= SERVER_CONSTANTS.MAX_CHANNELS_PER_SERVER) {
+        throw new BadRequestException('Server has reached the channel limit');
+      }
+
+      const name = this.normalizeChannelName(data.name);
+      await this.validateChannelName({ serverId, name });
+
+      const channel = await this.prisma.channel.create({
+        data: {
+          serverId,
+          name,
+          topic: data.topic,
+          position: channelCount,
+        },
+        select: channelDataSelect,
+      });
+
+      return {
+        message: 'Channel created successfully',
+        data: channel,
+        statusCode: 201,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  async getChannels({
+    serverId,
+    userId,
+    limit = 10,
+    page = 1,
+  }: {
+    serverId: string;
+    userId: string;
+    limit?: number;
+    page?: number;
+  }): Promise<IPaginationResponseType<ChannelDataType>> {
+    try {
+      await this.validateMember({ serverId, userId });
+
+      const whereQuery: Prisma.ChannelWhereInput = { serverId };
+
+      const [totalCount, channels] = await this.prisma.$transaction([
+        this.prisma.channel.count({ where: whereQuery }),
+        this.prisma.channel.findMany({
+          where: whereQuery,
+          skip: (page - 1) * limit,
+          take: limit,
+          orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+          select: channelDataSelect,
+        }),
+      ]);
+
+      const totalPage = Math.ceil(totalCount / limit);
+      const hasNextPage = page < totalPage;
+      const hasPreviousPage = !!totalCount && page > 1;
+
+      return {
+        message: 'Get channels successfully',
+        data: {
+          currentPage: page,
+          totalCount,
+          totalPage,
+          pageSize: limit,
+          hasNextPage,
+          hasPreviousPage,
+          items: channels,
+        },
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  async updateChannel({
+    serverId,
+    channelId,
+    userId,
+    data,
+  }: {
+    serverId: string;
+    channelId: string;
+    userId: string;
+    data: UpdateChannelDto;
+  }): Promise<IResponseType<ChannelDataType>> {
+    try {
+      await this.validateMember({ serverId, userId, roles: MANAGER_ROLES });
+      await this.validateChannel({ serverId, channelId });
+
+      const name = data.name ? this.normalizeChannelName(data.name) : undefined;
+      if (name) await this.validateChannelName({ serverId, name, channelId });
+
+      const updatedChannel = await this.prisma.channel.update({
+        where: { id: channelId },
+        data: {
+          name,
+          topic: data.topic,
+          position: data.position,
+        },
+        select: channelDataSelect,
+      });
+
+      return {
+        message: 'Channel updated successfully',
+        data: updatedChannel,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  async deleteChannel({
+    serverId,
+    channelId,
+    userId,
+  }: {
+    serverId: string;
+    channelId: string;
+    userId: string;
+  }): Promise<IResponseType<ChannelDataType>> {
+    try {
+      await this.validateMember({ serverId, userId, roles: MANAGER_ROLES });
+      await this.validateChannel({ serverId, channelId });
+
+      const deletedChannel = await this.prisma.channel.delete({
+        where: { id: channelId },
+        select: channelDataSelect,
+      });
+
+      return {
+        message: 'Channel deleted successfully',
+        data: deletedChannel,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  //   ----------------- Invites
+  async createInvite({
+    serverId,
+    userId,
+    data,
+  }: {
+    serverId: string;
+    userId: string;
+    data: CreateServerInviteDto;
+  }): Promise<IResponseType<ServerInviteDataType>> {
+    try {
+      await this.validateMember({ serverId, userId, roles: MANAGER_ROLES });
+
+      const invite = await this.prisma.serverInvite.create({
+        data: {
+          code: generateInviteCode(),
+          serverId,
+          creatorId: userId,
+          maxUses: data.maxUses,
+          expiresAt: data.expiresInMinutes
+            ? addMinutes(new Date(), data.expiresInMinutes)
+            : null,
+        },
+        select: serverInviteDataSelect,
+      });
+
+      return {
+        message: 'Invite created successfully',
+        data: invite,
+        statusCode: 201,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Join a server with an invite code
+   * @param code - Invite code
+   * @param userId - Current user
+   * @returns The joined server
+   */
+  async joinServer({
+    code,
+    userId,
+  }: {
+    code: string;
+    userId: string;
+  }): Promise<IResponseType<ServerDataType>> {
+    try {
+      if (!code) throw new BadRequestException('Invite code is required');
+
+      const invite = await this.prisma.serverInvite.findUnique({
+        where: { code },
+      });
+
+      if (!invite) throw new NotFoundException('Invite not found');
+      if (invite.expiresAt && isPast(new Date(invite.expiresAt)))
+        throw new ForbiddenException('Invite expired');
+      if (invite.maxUses && invite.uses >= invite.maxUses)
+        throw new ForbiddenException('Invite has reached its maximum uses');
+
+      const existingMember = await this.prisma.serverMember.findUnique({
+        where: {
+          serverId_userId: { serverId: invite.serverId, userId },
+        },
+      });
+      if (existingMember)
+        throw new ConflictException('You are already a member of this server');
+
+      const server = await this.prisma.$transaction(async (tx) => {
+        // Conditional, so concurrent joins cannot go past maxUses
+        const { count } = await tx.serverInvite.updateMany({
+          where: {
+            id: invite.id,
+            OR: [{ maxUses: null }, { uses: { lt: invite.maxUses ?? 0 } }],
+          },
+          data: { uses: { increment: 1 } },
+        });
+        if (!count)
+          throw new ForbiddenException('Invite has reached its maximum uses');
+
+        try {
+          await tx.serverMember.create({
+            data: { serverId: invite.serverId, userId },
+          });
+        } catch (error) {
+          // A concurrent join of the same user passed the check above
+          if (
+            error instanceof Prisma.PrismaClientKnownRequestError &&
+            error.code === 'P2002'
+          )
+            throw new ConflictException(
+              'You are already a member of this server',
+            );
+          throw error;
+        }
+
+        return tx.server.update({
+          where: { id: invite.serverId },
+          data: { memberCount: { increment: 1 } },
+          select: serverDataSelect,
+        });
+      });
+
+      return {
+        message: 'Joined server successfully',
+        data: server,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  //   ----------------- Members
+  async getMembers({
+    serverId,
+    userId,
+    limit = 10,
+    page = 1,
+  }: {
+    serverId: string;
+    userId: string;
+    limit?: number;
+    page?: number;
+  }): Promise<IPaginationResponseType<ServerMemberDataType>> {
+    try {
+      await this.validateMember({ serverId, userId });
+
+      const whereQuery: Prisma.ServerMemberWhereInput = { serverId };
+
+      const [totalCount, members] = await this.prisma.$transaction([
+        this.prisma.serverMember.count({ where: whereQuery }),
+        this.prisma.serverMember.findMany({
+          where: whereQuery,
+          skip: (page - 1) * limit,
+          take: limit,
+          orderBy: { joinedAt: 'asc' },
+          select: serverMemberDataSelect,
+        }),
+      ]);
+
+      const totalPage = Math.ceil(totalCount / limit);
+      const hasNextPage = page < totalPage;
+      const hasPreviousPage = !!totalCount && page > 1;
+
+      return {
+        message: 'Get members successfully',
+        data: {
+          currentPage: page,
+          totalCount,
+          totalPage,
+          pageSize: limit,
+          hasNextPage,
+          hasPreviousPage,
+          items: members,
+        },
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Change the role or nickname of a member
+   * Only the owner can change roles, the owner role cannot be given or taken away
+   */
+  async updateMember({
+    serverId,
+    memberUserId,
+    userId,
+    data,
+  }: {
+    serverId: string;
+    memberUserId: string;
+    userId: string;
+    data: UpdateServerMemberDto;
+  }): Promise<IResponseType<ServerMemberDataType>> {
+    try {
+      const currentMember = await this.validateMember({
+        serverId,
+        userId,
+        roles: MANAGER_ROLES,
+      });
+      const targetMember = await this.validateMember({
+        serverId,
+        userId: memberUserId,
+      });
+
+      if (data.role && currentMember.role !== ServerMemberRole.OWNER)
+        throw new ForbiddenException('Only the owner can change member roles');
+      if (data.role && targetMember.role === ServerMemberRole.OWNER)
+        throw new ForbiddenException('Cannot change the role of the owner');
+
+      const updatedMember = await this.prisma.serverMember.update({
+        where: { id: targetMember.id },
+        data: {
+          role: data.role,
+          nickname: data.nickname,
+        },
+        select: serverMemberDataSelect,
+      });
+
+      return {
+        message: 'Member updated successfully',
+        data: updatedMember,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  /**
+   * Remove a member from a server
+   * Kicking another member requires a higher role, members can always remove themselves
+   * except for the owner who has to delete the server instead
+   */
+  async removeMember({
+    serverId,
+    memberUserId,
+    userId,
+  }: {
+    serverId: string;
+    memberUserId: string;
+    userId: string;
+  }): Promise<IResponseType<ServerMemberDataType>> {
+    try {
+      const isLeaving = memberUserId === userId;
+
+      const currentMember = await this.validateMember({
+        serverId,
+        userId,
+        roles: isLeaving ? undefined : MANAGER_ROLES,
+      });
+      const targetMember = isLeaving
+        ? currentMember
+        : await this.validateMember({ serverId, userId: memberUserId });
+
+      if (targetMember.role === ServerMemberRole.OWNER)
+        throw new ForbiddenException('The owner cannot leave the server');
+      if (
+        !isLeaving &&
+        currentMember.role !== ServerMemberRole.OWNER &&
+        targetMember.role !== ServerMemberRole.MEMBER
+      )
+        throw new ForbiddenException('Cannot remove a member with this role');
+
+      const [removedMember] = await this.prisma.$transaction([
+        this.prisma.serverMember.delete({
+          where: { id: targetMember.id },
+          select: serverMemberDataSelect,
+        }),
+        this.prisma.server.update({
+          where: { id: serverId },
+          data: { memberCount: { decrement: 1 } },
+        }),
+      ]);
+
+      return {
+        message: isLeaving
+          ? 'Left server successfully'
+          : 'Member removed successfully',
+        data: removedMember,
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
+  //   ----------------- Utils
+  private async validateMember({
+    serverId,
+    userId,
+    roles,
+  }: {
+    serverId: string;
+    userId: string;
+    roles?: ServerMemberRole[];
+  }) {
+    if (!serverId) throw new BadRequestException('Server id is required');
+
+    const server = await this.prisma.server.findUnique({
+      where: { id: serverId },
+      select: {
+        id: true,
+        members: {
+          where: { userId },
+          select: { id: true, userId: true, role: true },
+        },
+      },
+    });
+
+    if (!server) throw new NotFoundException('Server not found');
+
+    const [member] = server.members;
+    if (!member) throw new ForbiddenException('Not a member of this server');
+    if (roles && !roles.includes(member.role))
+      throw new ForbiddenException('Insufficient server permissions');
+
+    return member;
+  }
+
+  private async validateChannel({
+    serverId,
+    channelId,
+  }: {
+    serverId: string;
+    channelId: string;
+  }) {
+    if (!channelId) throw new BadRequestException('Channel id is required');
+
+    const channel = await this.prisma.channel.findUnique({
+      where: { id: channelId },
+      select: { id: true, serverId: true },
+    });
+
+    if (!channel || channel.serverId !== serverId)
+      throw new NotFoundException('Channel not found');
+
+    return channel;
+  }
+
+  private async validateChannelName({
+    serverId,
+    name,
+    channelId,
+  }: {
+    serverId: string;
+    name: string;
+    channelId?: string;
+  }) {
+    if (!name) throw new BadRequestException('Invalid channel name');
+
+    const existingChannel = await this.prisma.channel.findUnique({
+      where: { serverId_name: { serverId, name } },
+      select: { id: true },
+    });
+
+    if (existingChannel && existingChannel.id !== channelId)
+      throw new ConflictException('Channel name already exists');
+  }
+
+  private normalizeChannelName(name: string) {
+    // Channel names follow the Discord style: lowercase words joined by dashes
+    return slugify(name, { lower: true, strict: true, trim: true });
+  }
+}
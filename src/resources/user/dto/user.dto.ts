@@ -1,5 +1,15 @@
-import { ApiProperty } from '@nestjs/swagger';
-import { IsBoolean, IsNotEmpty, IsNumber, IsString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
 
 export class UpdateProfileDto {
   @ApiProperty({ default: '' })
@@ -42,6 +52,24 @@ export class BanUserDto {
   @IsBoolean()
   @IsNotEmpty()
   isBanned: boolean;
+
+  @ApiPropertyOptional({
+    default: '',
+    description: 'Required when banning, shown to the banned user',
+  })
+  @ValidateIf((data: BanUserDto) => data.isBanned)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  reason?: string;
+
+  @ApiPropertyOptional({
+    description: 'Suspension length in hours, permanent ban when omitted',
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  durationHours?: number;
 }
 
 export class UserAvatarUpdateDto {
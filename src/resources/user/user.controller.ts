@@ -15,11 +15,14 @@ import { UserService } from './user.service';
 import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
 import {
   banUserDecorator,
+  getUserBansDecorator,
   followUserDecorator,
   getAllUsersDecorator,
   getFollowersByIdDecorator,
   getFollowersDecorator,
   getInformationDecorator,
+  getMyCreditHistoryDecorator,
+  getMyMentionsDecorator,
   getUserInformationDecorator,
   updateInformationDecorator,
   updateUserAvatarDecorator,
@@ -35,9 +38,16 @@ import {
   UserCreditsUpdateDto,
 } from 'src/resources/user/dto/user.dto';
 import { FileIsImageValidationPipe } from 'src/pipes/ImageTypeValidator.pipe';
-import { normalizePaginationParams } from 'src/utils/utils';
+import {
+  normalizeCursorPaginationParams,
+  normalizePaginationParams,
+} from 'src/utils/utils';
 import { AuthGuard } from '@nestjs/passport';
 import { RoleGuard } from 'src/guards/role.guard';
+import { AuditAction, AuditTargetType } from '@prisma/client';
+import { Audit } from 'src/decorators/audit-log.decorator';
+import { RequirePermissions } from 'src/decorators/permissions.decorator';
+import { PermissionKey } from 'src/global/enums.global';
 
 @ApiTags('User Management')
 @ApiBearerAuth()
@@ -52,13 +62,23 @@ export class UserController {
     @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
     @Query('page') _page: string,
     @Query('limit') _limit: string,
+    @Query('cursor') _cursor?: string,
+    @Query('withTotal') _withTotal?: string,
   ) {
     const { userId } = decodedAccessToken;
     const { limit, page } = normalizePaginationParams({
       limit: +_limit,
       page: +_page,
     });
-    return this.userService.getFollowers({ userId, limit, page });
+    return this.userService.getFollowers({
+      userId,
+      limit,
+      page,
+      cursorPagination: normalizeCursorPaginationParams({
+        cursor: _cursor,
+        withTotal: _withTotal,
+      }),
+    });
   }
 
   @Get('/followers/:userId')
@@ -109,6 +129,42 @@ export class UserController {
     return this.userService.getInformation(decodedAccessToken);
   }
 
+  @Get('/me/mentions')
+  @getMyMentionsDecorator()
+  getMyMentions(
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Query('page') _page: string,
+    @Query('limit') _limit: string,
+  ) {
+    const { limit, page } = normalizePaginationParams({
+      limit: +_limit,
+      page: +_page,
+    });
+    return this.userService.getMyMentions({
+      userId: decodedAccessToken.userId,
+      limit,
+      page,
+    });
+  }
+
+  @Get('/me/credits/history')
+  @getMyCreditHistoryDecorator()
+  getMyCreditHistory(
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
+    @Query('page') _page: string,
+    @Query('limit') _limit: string,
+  ) {
+    const { limit, page } = normalizePaginationParams({
+      limit: +_limit,
+      page: +_page,
+    });
+    return this.userService.getMyCreditHistory({
+      userId: decodedAccessToken.userId,
+      limit,
+      page,
+    });
+  }
+
   @Get('/:userId')
   @getUserInformationDecorator()
   async getUserInformation(
@@ -139,6 +195,12 @@ export class UserController {
   }
 
   @Post('/credits/add/:userId')
+  @RequirePermissions(PermissionKey.CREDITS_ADJUST)
+  @Audit({
+    action: AuditAction.CREDITS_ADD,
+    targetType: AuditTargetType.USER,
+    targetParam: 'userId',
+  })
   @ApiOperation({
     summary: 'Add credits to a user',
     description: 'Add credits to a specific user',
@@ -146,11 +208,16 @@ export class UserController {
   async addUserCredits(
     @Param('userId') userId: string,
     @Body() data: UserCreditsUpdateDto,
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
   ) {
     const { amount } = data;
-    return this.userService.addUserCredits(userId, {
-      credits: amount,
-    });
+    return this.userService.addUserCredits(
+      userId,
+      {
+        credits: amount,
+      },
+      decodedAccessToken.userId,
+    );
   }
 
   @Post('/active/send-verification-email/:userId')
@@ -186,18 +253,43 @@ export class UserController {
     });
   }
 
+  @Get('/ban/:userId')
+  @getUserBansDecorator()
+  getUserBans(
+    @Param('userId') userId: string,
+    @Query('page') _page: string,
+    @Query('limit') _limit: string,
+  ) {
+    const { limit, page } = normalizePaginationParams({
+      limit: +_limit,
+      page: +_page,
+    });
+    return this.userService.getUserBans({ userId, limit, page });
+  }
+
   @Put('/ban/:userId')
   @banUserDecorator()
   async banUser(
     @Param('userId') userId: string,
     @Body() banUserData: BanUserDto,
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
   ) {
-    const result = await this.userService.banUser(userId, banUserData);
+    const result = await this.userService.banUser(
+      userId,
+      banUserData,
+      decodedAccessToken.userId,
+    );
 
     return result;
   }
 
   @Put('/credits/update/:userId')
+  @RequirePermissions(PermissionKey.CREDITS_ADJUST)
+  @Audit({
+    action: AuditAction.CREDITS_UPDATE,
+    targetType: AuditTargetType.USER,
+    targetParam: 'userId',
+  })
   @ApiOperation({
     summary: 'Update user credits',
     description: 'Update the credits of a specific user',
@@ -205,11 +297,16 @@ export class UserController {
   async updateUserCredits(
     @Param('userId') userId: string,
     @Body() data: UserCreditsUpdateDto,
+    @DecodedAccessToken() decodedAccessToken: IDecodedAccecssTokenType,
   ) {
     const { amount } = data;
-    return this.userService.updateUserCredits(userId, {
-      credits: amount,
-    });
+    return this.userService.updateUserCredits(
+      userId,
+      {
+        credits: amount,
+      },
+      decodedAccessToken.userId,
+    );
   }
 
   @Put('/me')
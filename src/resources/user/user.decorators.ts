@@ -8,10 +8,15 @@ import {
   ApiParam,
   ApiQuery,
 } from '@nestjs/swagger';
-import { ApiQueryLimitAndPage } from 'src/decorators/pagination.decorators';
-import { Roles } from 'src/decorators/roles.decorator';
+import {
+  ApiQueryCursor,
+  ApiQueryLimitAndPage,
+} from 'src/decorators/pagination.decorators';
+import { AuditAction, AuditTargetType } from '@prisma/client';
+import { Audit } from 'src/decorators/audit-log.decorator';
+import { RequirePermissions } from 'src/decorators/permissions.decorator';
 import { JwtTokenVerifyGuard } from 'src/guards/jwt-token-verify.guard';
-import { RolesLevel } from 'src/interfaces/interfaces.global';
+import { PermissionKey } from 'src/global/enums.global';
 
 import { UserAvatarUpdateDto } from 'src/resources/user/dto/user.dto';
 
@@ -50,13 +55,45 @@ export const getInformationDecorator = () =>
     }),
   );
 
+export const getMyMentionsDecorator = () =>
+  applyDecorators(
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Get my mentions',
+      description:
+        'Retrieve the posts and comments that mention the authenticated user',
+    }),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+      description: 'JWT access token for authentication',
+    }),
+    ApiQueryLimitAndPage(),
+  );
+
+export const getMyCreditHistoryDecorator = () =>
+  applyDecorators(
+    UseGuards(JwtTokenVerifyGuard),
+    ApiOperation({
+      summary: 'Get my credit history',
+      description:
+        'Retrieve every change of the credits of the authenticated user, newest first',
+    }),
+    ApiHeader({
+      name: 'accessToken',
+      required: true,
+      description: 'JWT access token for authentication',
+    }),
+    ApiQueryLimitAndPage(),
+  );
+
 export const getUserInformationDecorator = () =>
   applyDecorators(
-    Roles([RolesLevel.MANAGER]),
+    RequirePermissions(PermissionKey.USER_READ_ANY),
     ApiOperation({
       summary: 'Get user profile by ID',
       description:
-        "Retrieve a specific user's profile information (Manager access required)",
+        "Retrieve a specific user's profile information (requires user.read.any)",
     }),
     ApiParam({
       name: 'userId',
@@ -72,14 +109,30 @@ export const getUserInformationDecorator = () =>
 
 export const banUserDecorator = () =>
   applyDecorators(
-    Roles([RolesLevel.ADMIN]),
+    RequirePermissions(PermissionKey.USER_BAN),
+    Audit({
+      action: AuditAction.USER_BAN,
+      targetType: AuditTargetType.USER,
+      targetParam: 'userId',
+    }),
     ApiOperation({
       summary: 'Ban/unban user',
       description:
-        'Toggle ban status for a specific user (Admin access required)',
+        'Ban a user with a reason and an optional duration, or lift the current ban. Banning signs the user out of every session (requires user.ban)',
     }),
   );
 
+export const getUserBansDecorator = () =>
+  applyDecorators(
+    RequirePermissions(PermissionKey.USER_BAN),
+    ApiOperation({
+      summary: 'Get user ban history',
+      description:
+        'Retrieve every ban issued to a specific user, newest first (requires user.ban)',
+    }),
+    ApiQueryLimitAndPage(),
+  );
+
 export const updateInformationDecorator = () =>
   applyDecorators(
     ApiOperation({
@@ -96,6 +149,12 @@ export const updateInformationDecorator = () =>
 
 export const updateUserInformationDecorator = () =>
   applyDecorators(
+    RequirePermissions(PermissionKey.USER_UPDATE_ANY),
+    Audit({
+      action: AuditAction.USER_UPDATE,
+      targetType: AuditTargetType.USER,
+      targetParam: 'userId',
+    }),
     ApiOperation({
       summary: 'Update user profile by ID',
       description: "Update a specific user's profile information",
@@ -187,4 +246,5 @@ export const getFollowersDecorator = () =>
     }),
     UseGuards(JwtTokenVerifyGuard),
     ApiQueryLimitAndPage(),
+    ApiQueryCursor(),
   );
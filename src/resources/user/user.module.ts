@@ -1,12 +1,25 @@
 import { Module } from '@nestjs/common';
 import { UserService } from './user.service';
 import { UserController } from './user.controller';
-import { SupabaseService } from 'src/supabase/supabase.service';
 import { EmailModule } from 'src/resources/email/email.module';
+import { NotificationModule } from 'src/resources/notification/notification.module';
+import { HashtagModule } from 'src/resources/hashtag/hashtag.module';
+import { MentionModule } from 'src/resources/mention/mention.module';
+import { CreditModule } from 'src/resources/credit/credit.module';
+import { PostModule } from 'src/resources/post/post.module';
+import { PostService } from 'src/resources/post/post.service';
 
 @Module({
-  imports: [EmailModule],
+  imports: [
+    EmailModule,
+    NotificationModule,
+    HashtagModule,
+    MentionModule,
+    CreditModule,
+    PostModule,
+  ],
   controllers: [UserController],
-  providers: [UserService, SupabaseService],
+  providers: [UserService, PostService],
+  exports: [UserService],
 })
 export class UserModule {}
@@ -7,15 +7,23 @@ import {
 import {
   generateSecureVerificationCode,
   handleDefaultError,
+  liftExpiredBan,
 } from 'src/global/functions.global';
 import {
+  ICursorPaginationParamsType,
+  ICursorPaginationResponseType,
   IDecodedAccecssTokenType,
   IPaginationResponseType,
   IResponseType,
 } from 'src/interfaces/interfaces.global';
 import {
+  CreditTransactionDataType,
   followDataSelect,
   FollowDataType,
+  FollowerDataType,
+  MentionDataType,
+  userBanDataSelect,
+  UserBanDataType,
   userDataSelect,
   UserDataType,
   UserDataWithIsFollowedType,
@@ -27,18 +35,39 @@ import {
   UserActiveByCodeDto,
 } from 'src/resources/user/dto/user.dto';
 import * as bcrypt from 'bcryptjs';
-import { SupabaseService } from 'src/supabase/supabase.service';
+import { StorageService } from 'src/storage/storage.service';
 import { EmailService } from 'src/resources/email/email.service';
-import { addMinutes, isPast } from 'date-fns';
-import { Prisma } from '@prisma/client';
+import { addHours, addMinutes, isPast } from 'date-fns';
+import {
+  CreditTransactionReason,
+  NotificationType,
+  Prisma,
+} from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
+import { EventsGateway } from 'src/events/events.gateway';
+import { SocketEvent } from 'src/events/events.constants';
+import { NotificationService } from 'src/resources/notification/notification.service';
+import { PermissionService } from 'src/resources/permission/permission.service';
+import { PostService } from 'src/resources/post/post.service';
+import { MentionService } from 'src/resources/mention/mention.service';
+import { CreditService } from 'src/resources/credit/credit.service';
+import {
+  getCursorPaginationQuery,
+  getCursorPaginationResult,
+} from 'src/utils/utils';
 
 @Injectable()
 export class UserService {
   constructor(
     private readonly prisma: PrismaService,
-    private readonly supabase: SupabaseService,
+    private readonly storage: StorageService,
     private readonly emailService: EmailService,
+    private readonly eventsGateway: EventsGateway,
+    private readonly notificationService: NotificationService,
+    private readonly permissionService: PermissionService,
+    private readonly postService: PostService,
+    private readonly mentionService: MentionService,
+    private readonly creditService: CreditService,
   ) {}
 
   /**
@@ -159,6 +188,44 @@ export class UserService {
     }
   }
 
+  /**
+   * Get the posts and comments that mention a user
+   * @param userId - Mentioned user
+   * @param limit - Number of mentions per page
+   * @param page - Page number to fetch
+   * @returns Paginated mentions, newest first
+   */
+  async getMyMentions({
+    userId,
+    limit,
+    page,
+  }: {
+    userId: string;
+    limit: number;
+    page: number;
+  }): Promise<IPaginationResponseType<MentionDataType>> {
+    return this.mentionService.getUserMentions({ userId, limit, page });
+  }
+
+  /**
+   * Get the credit transactions of a user
+   * @param userId - Owner of the credits
+   * @param limit - Number of transactions per page
+   * @param page - Page number to fetch
+   * @returns Paginated credit transactions, newest first
+   */
+  async getMyCreditHistory({
+    userId,
+    limit,
+    page,
+  }: {
+    userId: string;
+    limit: number;
+    page: number;
+  }): Promise<IPaginationResponseType<CreditTransactionDataType>> {
+    return this.creditService.getCreditHistory({ userId, limit, page });
+  }
+
   /**
    * Get user information by userId or username, with optional follower status check
    *
@@ -224,24 +291,73 @@ export class UserService {
 
   /**
    * Bans or unbans a user based on the provided data.
+   * Every ban is recorded in the ban history, banning also signs the user out everywhere.
    *
    * @param userId The ID of the user to be banned or unbanned.
-   * @param data The data object containing the ban status.
+   * @param data The data object containing the ban status, reason and optional duration.
+   * @param actorId The ID of the admin or moderator performing the action.
    * @returns A promise that resolves to an object containing the response type.
    */
   async banUser(
     userId: string,
     data: BanUserDto,
+    actorId?: string,
   ): Promise<IResponseType<null>> {
     try {
       // Check if the userId is provided
       if (!userId) throw new BadRequestException('User ID is required');
+      if (userId === actorId) {
+        throw new BadRequestException('You cannot ban yourself');
+      }
 
-      // Update the user's ban status
-      await this.prisma.user.update({
+      const checkUser = await this.prisma.user.findUnique({
         where: { id: userId },
-        data: { isBanned: data.isBanned },
+        select: { id: true, isBanned: true, bannedUntil: true },
       });
+      if (!checkUser) throw new NotFoundException('User not found');
+
+      // An expired ban is closed at its expiry, not stamped as lifted by this action
+      await liftExpiredBan(this.prisma, checkUser);
+
+      const currentDate = new Date();
+
+      if (data.isBanned) {
+        const bannedUntil = data.durationHours
+          ? addHours(currentDate, data.durationHours)
+          : null;
+
+        await this.prisma.$transaction([
+          // A new ban replaces the one in effect
+          this.prisma.userBan.updateMany({
+            where: { userId, liftedAt: null },
+            data: { liftedAt: currentDate, liftedById: actorId },
+          }),
+          this.prisma.userBan.create({
+            data: {
+              userId,
+              bannedById: actorId,
+              reason: data.reason,
+              expiresAt: bannedUntil,
+            },
+          }),
+          this.prisma.user.update({
+            where: { id: userId },
+            data: { isBanned: true, banReason: data.reason, bannedUntil },
+          }),
+          this.prisma.userSession.deleteMany({ where: { userId } }),
+        ]);
+      } else {
+        await this.prisma.$transaction([
+          this.prisma.userBan.updateMany({
+            where: { userId, liftedAt: null },
+            data: { liftedAt: currentDate, liftedById: actorId },
+          }),
+          this.prisma.user.update({
+            where: { id: userId },
+            data: { isBanned: false, banReason: null, bannedUntil: null },
+          }),
+        ]);
+      }
 
       // Construct the response message based on the ban status
       const action = data.isBanned ? 'Ban' : 'Unban';
@@ -257,6 +373,60 @@ export class UserService {
     }
   }
 
+  /**
+   * Get the ban history of a user, newest first
+   * @param userId - Banned user
+   * @param limit - Number of bans per page
+   * @param page - Page number to fetch
+   */
+  async getUserBans({
+    userId,
+    limit,
+    page,
+  }: {
+    userId: string;
+    limit: number;
+    page: number;
+  }): Promise<IPaginationResponseType<UserBanDataType>> {
+    try {
+      if (!userId) throw new BadRequestException('User ID is required');
+
+      const whereQuery: Prisma.UserBanWhereInput = { userId };
+
+      const [totalCount, bans] = await this.prisma.$transaction([
+        this.prisma.userBan.count({ where: whereQuery }),
+        this.prisma.userBan.findMany({
+          where: whereQuery,
+          take: limit,
+          skip: (page - 1) * limit,
+          orderBy: { createdAt: 'desc' },
+          select: userBanDataSelect,
+        }),
+      ]);
+
+      const totalPage = Math.ceil(totalCount / limit);
+      const hasNextPage = page * limit < totalCount;
+      const hasPreviousPage = !!totalCount && page > 1;
+
+      return {
+        message: 'Get user bans successfully',
+        data: {
+          items: bans,
+          totalCount,
+          totalPage,
+          currentPage: page,
+          pageSize: limit,
+          hasNextPage,
+          hasPreviousPage,
+        },
+        statusCode: 200,
+        date: new Date(),
+      };
+    } catch (error) {
+      handleDefaultError(error);
+    }
+  }
+
   async updateInformation(
     decodedAccessToken: IDecodedAccecssTokenType,
     data: UpdateProfileDto,
@@ -333,6 +503,9 @@ export class UserService {
       // Throw an error if the user is not found.
       if (!user) throw new NotFoundException('User not found');
 
+      // The user type may have changed, drop the cached permissions
+      await this.permissionService.invalidateUserPermissions(userId);
+
       // Return a successful response with the updated user data.
       return {
         message: 'Update user information successfully',
@@ -370,7 +543,7 @@ export class UserService {
       if (!checkUser) throw new NotFoundException('User not found');
 
       // Upload the file to the storage service and get the URL of the uploaded file.
-      const { url } = await this.supabase.uploadFile(file);
+      const { url } = await this.storage.uploadFile(file);
 
       // Update the user's avatar with the URL of the uploaded file.
       const updatedUser = await this.prisma.user.update({
@@ -397,6 +570,7 @@ export class UserService {
    *
    * @param userId The ID of the user whose credits will be updated.
    * @param data An object containing the updated credits amount.
+   * @param actorId The ID of the admin making the change, stored as the ledger reference.
    * @returns A promise that resolves to an object containing the response type, including the user's updated data.
    */
   async updateUserCredits(
@@ -404,6 +578,7 @@ export class UserService {
     data: {
       credits: number;
     },
+    actorId?: string,
   ): Promise<
     IResponseType<{
       id: string;
@@ -413,12 +588,20 @@ export class UserService {
   > {
     try {
       if (!userId) throw new BadRequestException('User id is required');
-      // Update the user's credits with the provided data.
-      const updatedUser = await this.prisma.user.update({
-        where: { id: userId },
-        data,
+      // Update the user's credits with the provided data, the ledger records the difference.
+      const updatedUser = await this.prisma.$transaction(async (tx) => {
+        await this.creditService.setCredits({
+          userId,
+          credits: data.credits,
+          reason: CreditTransactionReason.ADMIN_SET,
+          referenceId: actorId,
+          tx,
+        });
         // Select the user's ID, username, and updated credits for the response.
-        select: { id: true, username: true, credits: true },
+        return tx.user.findUnique({
+          where: { id: userId },
+          select: { id: true, username: true, credits: true },
+        });
       });
 
       // Check if the user was found and throw an exception if not.
@@ -442,6 +625,7 @@ export class UserService {
    *
    * @param userId The ID of the user to whom credits will be added.
    * @param data An object containing the amount of credits to be added.
+   * @param actorId The ID of the admin making the change, stored as the ledger reference.
    * @returns A promise that resolves to an object containing the response type, including the user's updated data.
    */
   async addUserCredits(
@@ -449,6 +633,7 @@ export class UserService {
     data: {
       credits: number;
     },
+    actorId?: string,
   ): Promise<
     IResponseType<{
       id: string;
@@ -459,15 +644,19 @@ export class UserService {
     try {
       if (!userId) throw new BadRequestException('User id is required');
       // Update the user's credits by incrementing the current amount with the provided data.
-      const updatedUser = await this.prisma.user.update({
-        where: { id: userId },
-        data: {
-          credits: {
-            increment: data.credits,
-          },
-        },
+      const updatedUser = await this.prisma.$transaction(async (tx) => {
+        await this.creditService.addCredits({
+          userId,
+          amount: data.credits,
+          reason: CreditTransactionReason.ADMIN_ADD,
+          referenceId: actorId,
+          tx,
+        });
         // Select the user's ID, username, and updated credits for the response.
-        select: { id: true, username: true, credits: true },
+        return tx.user.findUnique({
+          where: { id: userId },
+          select: { id: true, username: true, credits: true },
+        });
       });
 
       // Check if the user was found and throw an exception if not.
@@ -693,6 +882,28 @@ export class UserService {
             }),
       ]);
 
+      // The followed user's posts enter or leave the follower's feed
+      await this.postService.invalidateFeed(followerUserId);
+
+      // Let the followed user know in real time
+      this.eventsGateway.emit(
+        SocketEvent.USER_FOLLOWED,
+        {
+          follower: followResult.follower,
+          isFollowing: !existingFollow,
+          followerCount: followResult.following.followerCount,
+        },
+        { userIds: [userId] },
+      );
+
+      if (!existingFollow) {
+        await this.notificationService.createNotification({
+          recipientId: userId,
+          actorId: followerUserId,
+          type: NotificationType.FOLLOW,
+        });
+      }
+
       // Return success response with updated follow data
       return {
         message: `${existingFollow ? 'Unfollow' : 'Follow'} user successfully`,
@@ -722,16 +933,15 @@ export class UserService {
     userId,
     limit = 10,
     page = 1,
+    cursorPagination,
   }: {
     userId: string;
     limit?: number;
     page?: number;
+    cursorPagination?: ICursorPaginationParamsType;
   }): Promise<
-    IPaginationResponseType<
-      Omit<FollowDataType, 'following'> & {
-        follower: UserDataWithIsFollowedType;
-      }
-    >
+    | IPaginationResponseType<FollowerDataType>
+    | ICursorPaginationResponseType<FollowerDataType>
   > {
     try {
       // Validate user ID is provided
@@ -745,6 +955,72 @@ export class UserService {
         followingId: userId,
       };
 
+      const selectQuery = {
+        ...filledFollowData,
+        follower: {
+          select: {
+            ...userDataSelect,
+            // Check if the user follows back
+            followers: {
+              where: {
+                followerId: userId,
+              },
+              select: {
+                id: true,
+              },
+            },
+          },
+        },
+      } satisfies Prisma.FollowSelect;
+
+      // Transform followers data to include isFollowedByUser flag
+      const toFollowerItem = (
+        followerItem: Prisma.FollowGetPayload<{ select: typeof selectQuery }>,
+      ): FollowerDataType => {
+        const { followers, ...follower } = followerItem.follower;
+
+        return {
+          ...followerItem,
+          follower: {
+            ...follower,
+            isFollowedByUser: followers.length > 0,
+          },
+        };
+      };
+
+      if (cursorPagination) {
+        const { where, orderBy, take } = getCursorPaginationQuery({
+          cursor: cursorPagination.cursor,
+          limit,
+        });
+
+        // Only count when the client asks for totals
+        const [totalCount, followers] = await Promise.all([
+          cursorPagination.withTotal
+            ? this.prisma.follow.count({ where: whereQuery })
+            : undefined,
+          this.prisma.follow.findMany({
+            where: { AND: [whereQuery, where] },
+            orderBy,
+            take,
+            select: selectQuery,
+          }),
+        ]);
+
+        return {
+          message: 'Get followers successfully',
+          data: {
+            ...getCursorPaginationResult({
+              items: followers.map(toFollowerItem),
+              limit,
+            }),
+            totalCount,
+          },
+          statusCode: 200,
+          date: new Date(),
+        };
+      }
+
       // Execute transaction to get total count and followers data
       const [totalCount, followers] = await this.prisma.$transaction([
         // Get total number of followers
@@ -755,23 +1031,7 @@ export class UserService {
           skip: (page - 1) * limit,
           take: limit,
           orderBy: { createdAt: 'desc' },
-          select: {
-            ...filledFollowData,
-            follower: {
-              select: {
-                ...userDataSelect,
-                // Check if the user follows back
-                followers: {
-                  where: {
-                    followerId: userId,
-                  },
-                  select: {
-                    id: true,
-                  },
-                },
-              },
-            },
-          },
+          select: selectQuery,
         }),
       ]);
 
@@ -780,18 +1040,7 @@ export class UserService {
       const hasNextPage = page < totalPage;
       const hasPreviousPage = !!totalCount && page > 1;
 
-      // Transform followers data to include isFollowedByUser flag
-      const items = followers.map((followerItem) => {
-        const { followers, ...follower } = followerItem.follower;
-
-        return {
-          ...followerItem,
-          follower: {
-            ...follower,
-            isFollowedByUser: followers.length > 0,
-          },
-        };
-      });
+      const items = followers.map(toFollowerItem);
 
       // Return success response with pagination and followers data
       return {
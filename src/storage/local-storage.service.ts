@@ -0,0 +1,73 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { generateStorageFileName } from 'src/global/functions.global';
+import { IStoredFileType, StorageService } from 'src/storage/storage.service';
+
+/**
+ * Stores files on the local disk, for development and tests
+ * Files are served by the static route registered in main.ts
+ */
+@Injectable()
+export class LocalStorageService extends StorageService {
+  private rootPath: string;
+  private publicUrl: string;
+
+  constructor(private readonly configService: ConfigService) {
+    super();
+    this.rootPath = resolve(this.configService.get('STORAGE_LOCAL_PATH'));
+    this.publicUrl = this.configService
+      .get<string>('STORAGE_LOCAL_PUBLIC_URL')
+      .replace(/\/+$/, '');
+  }
+
+  async uploadFile(file: Express.Multer.File): Promise<IStoredFileType> {
+    try {
+      const { originalname, buffer } = file;
+      const fileName = generateStorageFileName(originalname);
+
+      await mkdir(this.rootPath, { recursive: true });
+      await writeFile(this.resolvePath(fileName), buffer);
+
+      return {
+        path: fileName,
+        fileName,
+        url: `${this.publicUrl}/${fileName}`,
+      };
+    } catch (error) {
+      throw new Error(`Error uploading file: ${error.message}`);
+    }
+  }
+
+  async uploadFiles(
+    files: Array<Express.Multer.File>,
+  ): Promise<IStoredFileType[]> {
+    return Promise.all(files.map((file) => this.uploadFile(file)));
+  }
+
+  async deleteFiles(paths: string[]): Promise<void> {
+    try {
+      await Promise.all(
+        paths.map((path) => rm(this.resolvePath(path), { force: true })),
+      );
+    } catch (error) {
+      throw new Error(`Error deleting files: ${error.message}`);
+    }
+  }
+
+  // Local files are public, the URL does not expire
+  async getSignedUrl(path: string): Promise<string> {
+    this.resolvePath(path);
+    return `${this.publicUrl}/${path}`;
+  }
+
+  // Keep every path inside the storage root
+  private resolvePath(path: string) {
+    const fullPath = resolve(join(this.rootPath, path));
+    if (!fullPath.startsWith(this.rootPath + '/')) {
+      throw new Error('Invalid file path');
+    }
+    return fullPath;
+  }
+}
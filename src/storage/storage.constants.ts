@@ -0,0 +1,9 @@
+export enum StorageDriver {
+  SUPABASE = 'supabase',
+  LOCAL = 'local',
+}
+
+export const STORAGE_CONSTANTS = {
+  LOCAL_STATIC_PREFIX: '/uploads',
+  DEFAULT_SIGNED_URL_EXPIRES_IN: 60 * 60, // 1 hour, in seconds
+};
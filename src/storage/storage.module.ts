@@ -0,0 +1,22 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StorageDriver } from 'src/storage/storage.constants';
+import { StorageService } from 'src/storage/storage.service';
+import { LocalStorageService } from 'src/storage/local-storage.service';
+import { SupabaseService } from 'src/supabase/supabase.service';
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: StorageService,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        configService.get('STORAGE_DRIVER') === StorageDriver.LOCAL
+          ? new LocalStorageService(configService)
+          : new SupabaseService(configService),
+    },
+  ],
+  exports: [StorageService],
+})
+export class StorageModule {}
@@ -0,0 +1,25 @@
+export interface IStoredFileType {
+  path: string; // Path inside the storage, used to delete or sign the file
+  fileName: string;
+  url: string;
+}
+
+/**
+ * Storage backend used for uploads
+ * The concrete driver is selected by STORAGE_DRIVER, see StorageModule
+ */
+export abstract class StorageService {
+  abstract uploadFile(file: Express.Multer.File): Promise<IStoredFileType>;
+
+  abstract uploadFiles(
+    files: Array<Express.Multer.File>,
+  ): Promise<IStoredFileType[]>;
+
+  abstract deleteFiles(paths: string[]): Promise<void>;
+
+  /**
+   * @param path - Path returned by the upload methods
+   * @param expiresIn - Lifetime of the URL in seconds
+   */
+  abstract getSignedUrl(path: string, expiresIn?: number): Promise<string>;
+}
@@ -1,15 +1,18 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { SupabaseClient, createClient } from '@supabase/supabase-js';
-import { sanitizeFileName } from 'src/global/functions.global';
+import { generateStorageFileName } from 'src/global/functions.global';
+import { STORAGE_CONSTANTS } from 'src/storage/storage.constants';
+import { StorageService } from 'src/storage/storage.service';
 
 @Injectable()
-export class SupabaseService {
+export class SupabaseService extends StorageService {
   private supabaseUrl: string;
   private supabaseKey: string;
   private supabaseBucket: string;
   private supabase: SupabaseClient<any, 'public', any>;
   constructor(private readonly configService: ConfigService) {
+    super();
     this.supabaseUrl = this.configService.get('SUPABASE_URL');
     this.supabaseKey = this.configService.get('SUPABASE_KEY');
     this.supabaseBucket = this.configService.get('SUPABASE_BUCKET_NAME');
@@ -25,30 +28,7 @@ export class SupabaseService {
       url: string;
     }[]
   > {
-    try {
-      const uploadPromise = files.map(async (file) => {
-        const { originalname, buffer } = file;
-        const fileName = new Date().getTime() + '_' + originalname;
-        const sanitizedFileName = sanitizeFileName(fileName);
-        const imageSupabasePath = this.configService.get('SUPABASE_IMAGE_PATH'); // Supabase path for storing image files
-        const { data } = await this.supabase.storage
-          .from(this.supabaseBucket)
-          .upload(sanitizedFileName, buffer, {
-            contentType: file.mimetype,
-          });
-        return {
-          ...data,
-          url: `${imageSupabasePath + data.fullPath}`,
-          fileName: sanitizedFileName,
-        };
-      });
-
-      const uploadResult = await Promise.all(uploadPromise);
-
-      return uploadResult;
-    } catch (error) {
-      throw new Error(`Lỗi khi upload file: ${error.message}`);
-    }
+    return Promise.all(files.map((file) => this.uploadFile(file)));
   }
 
   async uploadFile(file: Express.Multer.File): Promise<{
@@ -60,14 +40,14 @@ export class SupabaseService {
   }> {
     try {
       const { originalname, buffer } = file;
-      const fileName = new Date().getTime() + '_' + originalname;
-      const sanitizedFileName = sanitizeFileName(fileName);
+      const sanitizedFileName = generateStorageFileName(originalname);
       const imageSupabasePath = this.configService.get('SUPABASE_IMAGE_PATH'); // Supabase path for storing image files
-      const { data } = await this.supabase.storage
+      const { data, error } = await this.supabase.storage
         .from(this.supabaseBucket)
         .upload(sanitizedFileName, buffer, {
           contentType: file.mimetype,
         });
+      if (error) throw error;
       return {
         ...data,
         url: `${imageSupabasePath + data.fullPath}`,
@@ -77,4 +57,31 @@ export class SupabaseService {
       throw new Error(`Lỗi khi upload file: ${error.message}`);
     }
   }
+
+  async deleteFiles(paths: string[]): Promise<void> {
+    if (paths.length === 0) return;
+    try {
+      const { error } = await this.supabase.storage
+        .from(this.supabaseBucket)
+        .remove(paths);
+      if (error) throw error;
+    } catch (error) {
+      throw new Error(`Error deleting files: ${error.message}`);
+    }
+  }
+
+  async getSignedUrl(
+    path: string,
+    expiresIn: number = STORAGE_CONSTANTS.DEFAULT_SIGNED_URL_EXPIRES_IN,
+  ): Promise<string> {
+    try {
+      const { data, error } = await this.supabase.storage
+        .from(this.supabaseBucket)
+        .createSignedUrl(path, expiresIn);
+      if (error) throw error;
+      return data.signedUrl;
+    } catch (error) {
+      throw new Error(`Error signing file url: ${error.message}`);
+    }
+  }
 }
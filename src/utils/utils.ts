@@ -1,4 +1,9 @@
+import { BadRequestException } from '@nestjs/common';
 import { MAX_LIMIT_ON_PAGE } from 'src/global/constant.global';
+import {
+  ICursorPaginationParamsType,
+  ICursorType,
+} from 'src/interfaces/interfaces.global';
 
 export const normalizePaginationParams = ({
   limit,
@@ -18,3 +23,82 @@ export const normalizePaginationParams = ({
     page,
   };
 };
+
+export const encodeCursor = ({ createdAt, id }: ICursorType): string =>
+  Buffer.from(JSON.stringify([createdAt.toISOString(), id])).toString(
+    'base64url',
+  );
+
+export const decodeCursor = (cursor: string): ICursorType => {
+  try {
+    const [createdAt, id] = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString(),
+    );
+    const date = new Date(createdAt);
+    if (typeof id !== 'string' || isNaN(date.getTime())) throw new Error();
+    return { createdAt: date, id };
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+};
+
+/**
+ * Cursor mode is used when the `cursor` query is present, an empty cursor requests the first page
+ * @returns undefined when the client uses page based pagination
+ */
+export const normalizeCursorPaginationParams = ({
+  cursor,
+  withTotal,
+}: {
+  cursor?: string;
+  withTotal?: string;
+}): ICursorPaginationParamsType | undefined => {
+  if (cursor === undefined) return undefined;
+  return {
+    cursor: cursor ? decodeCursor(cursor) : null,
+    withTotal: withTotal === 'true',
+  };
+};
+
+/**
+ * Build the where/orderBy/take of a cursor page ordered by (createdAt, id) desc
+ * One extra row is fetched to know if there is a next page
+ */
+export const getCursorPaginationQuery = ({
+  cursor,
+  limit,
+}: {
+  cursor: ICursorType | null;
+  limit: number;
+}) => ({
+  where: cursor
+    ? {
+        OR: [
+          { createdAt: { lt: cursor.createdAt } },
+          { createdAt: cursor.createdAt, id: { lt: cursor.id } },
+        ],
+      }
+    : {},
+  orderBy: [{ createdAt: 'desc' as const }, { id: 'desc' as const }],
+  take: limit + 1,
+});
+
+export const getCursorPaginationResult = <ItemType extends ICursorType>({
+  items,
+  limit,
+}: {
+  items: ItemType[];
+  limit: number;
+}) => {
+  const hasNextPage = items.length > limit;
+  const pageItems = hasNextPage ? items.slice(0, limit) : items;
+
+  return {
+    items: pageItems,
+    pageSize: limit,
+    nextCursor: hasNextPage
+      ? encodeCursor(pageItems[pageItems.length - 1])
+      : null,
+    hasNextPage,
+  };
+};
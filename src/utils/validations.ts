@@ -1,44 +1,95 @@
 import { z } from 'zod';
 
-export const envSchema = z.object({
-  // Server
-  SERVER_PORT: z.number().min(1, 'Server port must be a positive integer'),
-
-  // Redis
-  REDIS_HOST: z.string().min(1, 'Redis host is required'),
-  REDIS_PORT: z.number().min(1, 'Redis port must be a positive integer'),
-  REDIS_PASSWORD: z.string().min(1, 'Redis password is required'),
-
-  // JWT
-  JWT_SECRET: z.string().min(1, 'JWT secret is required'),
-  JWT_EXPIRES_IN: z.string().min(1, 'JWT expiration time is required'),
-  JWT_REFRESH_TOKEN_EXPIRES_IN: z
-    .string()
-    .min(1, 'JWT refresh token expiration time is required'),
-
-  // Database
-  DATABASE_URL: z.string().url('Database URL must be a valid URL'),
-
-  // Supabase
-  SUPABASE_URL: z.string().url('Supabase URL must be a valid URL'),
-  SUPABASE_KEY: z.string().min(1, 'Supabase key is required'),
-  SUPABASE_BUCKET_NAME: z.string().min(1, 'Supabase bucket name is required'),
-  SUPABASE_IMAGE_PATH: z
-    .string()
-    .url('Supabase image path must be a valid URL'),
-
-  // Mail
-  MAILER_HOST: z.string().min(1, 'Mailer host is required'),
-  MAILER_PORT: z.number().min(1, 'Mailer port must be a positive integer'),
-  MAILER_USER: z.string().min(1, 'Mailer username is required'),
-  MAILER_PASS: z.string().min(1, 'Mailer password is required'),
-
-  // AI Services
-  OPENROUTER_API_KEY: z.string().min(1, 'OpenRouter API key is required'),
-  OPENROUTER_PROVIDER_URL: z
-    .string()
-    .url('OpenRouter provider URL must be a valid URL'),
-});
+export const envSchema = z
+  .object({
+    // Server
+    SERVER_PORT: z.number().min(1, 'Server port must be a positive integer'),
+
+    // Redis
+    REDIS_HOST: z.string().min(1, 'Redis host is required'),
+    REDIS_PORT: z.number().min(1, 'Redis port must be a positive integer'),
+    REDIS_PASSWORD: z.string().min(1, 'Redis password is required'),
+
+    // JWT
+    JWT_SECRET: z.string().min(1, 'JWT secret is required'),
+    JWT_EXPIRES_IN: z.string().min(1, 'JWT expiration time is required'),
+    JWT_REFRESH_TOKEN_EXPIRES_IN: z
+      .string()
+      .min(1, 'JWT refresh token expiration time is required'),
+
+    // Database
+    DATABASE_URL: z.string().url('Database URL must be a valid URL'),
+
+    // Storage
+    STORAGE_DRIVER: z.enum(['supabase', 'local']),
+    STORAGE_LOCAL_PATH: z.string().min(1, 'Local storage path is required'),
+    STORAGE_LOCAL_PUBLIC_URL: z
+      .string()
+      .url('Local storage public URL must be a valid URL'),
+
+    // Supabase (only required by the supabase storage driver)
+    SUPABASE_URL: z.string().url('Supabase URL must be a valid URL').optional(),
+    SUPABASE_KEY: z.string().optional(),
+    SUPABASE_BUCKET_NAME: z.string().optional(),
+    SUPABASE_IMAGE_PATH: z
+      .string()
+      .url('Supabase image path must be a valid URL')
+      .optional(),
+
+    // Mail
+    MAILER_HOST: z.string().min(1, 'Mailer host is required'),
+    MAILER_PORT: z.number().min(1, 'Mailer port must be a positive integer'),
+    MAILER_USER: z.string().min(1, 'Mailer username is required'),
+    MAILER_PASS: z.string().min(1, 'Mailer password is required'),
+    PASSWORD_RESET_URL: z
+      .string()
+      .url('Password reset URL must be a valid URL')
+      .optional(),
+
+    // AI Services
+    AI_PROVIDER: z.enum(['openrouter', 'fake']),
+    AI_MODEL: z.string().min(1, 'AI model is required'),
+    AI_TIMEOUT: z.number().min(1, 'AI timeout must be a positive integer'),
+    AI_MAX_RETRIES: z
+      .number()
+      .min(0, 'AI max retries must be a non-negative integer'),
+
+    // OpenRouter (only required by the openrouter AI provider)
+    OPENROUTER_API_KEY: z.string().optional(),
+    OPENROUTER_PROVIDER_URL: z
+      .string()
+      .url('OpenRouter provider URL must be a valid URL')
+      .optional(),
+  })
+  .superRefine((env, ctx) => {
+    if (env.AI_PROVIDER === 'openrouter') {
+      ['OPENROUTER_API_KEY', 'OPENROUTER_PROVIDER_URL'].forEach((key) => {
+        if (!env[key]) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [key],
+            message: `${key} is required by the openrouter AI provider`,
+          });
+        }
+      });
+    }
+
+    if (env.STORAGE_DRIVER !== 'supabase') return;
+    [
+      'SUPABASE_URL',
+      'SUPABASE_KEY',
+      'SUPABASE_BUCKET_NAME',
+      'SUPABASE_IMAGE_PATH',
+    ].forEach((key) => {
+      if (!env[key]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: `${key} is required by the supabase storage driver`,
+        });
+      }
+    });
+  });
 
 // Export type để sử dụng cho TypeScript
 export type EnvConfig = z.infer<typeof envSchema>;